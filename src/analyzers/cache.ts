@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { Finding } from './findings';
+import type { TransformationPlugin } from '../transformers/registry';
+
+export const CACHE_DIR = path.join('.nextjs16-migrator', 'cache');
+
+// Bumped whenever the shape of cached entries changes
+const CACHE_FORMAT = 2;
+
+export interface CachedFile {
+  hash: string;
+  findings: Finding[];
+}
+
+export interface CacheOptions {
+  // Cache file name, so each app in a monorepo keeps its own cache
+  name?: string;
+  // Settings the cached results depend on, e.g. pageExtensions
+  settings?: Record<string, unknown>;
+  // Reuse cached results without writing any, e.g. on --dry-run
+  readOnly?: boolean;
+}
+
+interface CacheData {
+  format: number;
+  version: string;
+  rules: string[];
+  settings: Record<string, unknown>;
+  files: Record<string, CachedFile>;
+}
+
+/**
+ * Per-file analysis results keyed by content hash. The whole cache is discarded when the
+ * migrator version, the set of enabled rules (with their versions) or the app's settings change.
+ */
+export class AnalysisCache {
+  private cachePath: string;
+  private data: CacheData;
+  private dirty = false;
+  private readOnly: boolean;
+
+  private constructor(cachePath: string, data: CacheData, readOnly = false) {
+    this.cachePath = cachePath;
+    this.data = data;
+    this.readOnly = readOnly;
+  }
+
+  /**
+   * Loads the cache for these rules, as returned by `ruleKey`.
+   */
+  static async load(rules: string[], options: CacheOptions = {}, cwd: string = process.cwd()): Promise<AnalysisCache> {
+    const cachePath = path.join(cwd, CACHE_DIR, `${options.name || 'analysis'}.json`);
+    const version = getMigratorVersion();
+    const enabledRules = [...rules].sort();
+    const settings = options.settings || {};
+    const empty: CacheData = { format: CACHE_FORMAT, version, rules: enabledRules, settings, files: {} };
+
+    try {
+      const data: CacheData = await fs.readJson(cachePath);
+      const valid = data.format === CACHE_FORMAT
+        && data.version === version
+        && Array.isArray(data.rules)
+        && data.rules.join(',') === enabledRules.join(',')
+        && JSON.stringify(data.settings) === JSON.stringify(settings);
+
+      const cache = new AnalysisCache(cachePath, valid ? data : empty, options.readOnly);
+      cache.dirty = !valid;
+      return cache;
+    } catch {
+      // Missing or corrupt cache files are rebuilt from scratch
+      const cache = new AnalysisCache(cachePath, empty, options.readOnly);
+      cache.dirty = true;
+      return cache;
+    }
+  }
+
+  static hash(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
+  get(filePath: string, hash: string): Finding[] | undefined {
+    const entry = this.data.files[filePath];
+    return entry && entry.hash === hash ? entry.findings : undefined;
+  }
+
+  set(filePath: string, hash: string, findings: Finding[]): void {
+    this.data.files[filePath] = { hash, findings };
+    this.dirty = true;
+  }
+
+  /**
+   * Writes the cache, dropping entries for files that were not part of this run.
+   */
+  async save(seen: string[]): Promise<void> {
+    if (this.readOnly) {
+      return;
+    }
+
+    const files: Record<string, CachedFile> = {};
+    seen.forEach(file => {
+      if (this.data.files[file]) {
+        files[file] = this.data.files[file];
+      }
+    });
+
+    if (!this.dirty && Object.keys(files).length === Object.keys(this.data.files).length) {
+      return;
+    }
+
+    this.data.files = files;
+    await fs.outputJson(this.cachePath, this.data);
+    this.dirty = false;
+  }
+}
+
+/**
+ * Identifies a rule and the detection it runs: `id@version`, or `id@<hash of detect>` for
+ * plugins without a version, so editing a plugin invalidates the results it produced.
+ */
+export function ruleKey(plugin: TransformationPlugin): string {
+  const version = plugin.version || AnalysisCache.hash(plugin.detect.toString()).slice(0, 12);
+  return `${plugin.id}@${version}`;
+}
+
+export function getMigratorVersion(): string {
+  try {
+    return fs.readJsonSync(path.join(__dirname, '..', '..', 'package.json')).version;
+  } catch {
+    return 'unknown';
+  }
+}
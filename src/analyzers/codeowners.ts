@@ -0,0 +1,93 @@
+import fs from 'fs-extra';
+import path from 'path';
+
+// Locations GitHub reads CODEOWNERS from, in order of precedence
+const CODEOWNERS_FILES = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+interface OwnershipRule {
+  pattern: RegExp;
+  owners: string[];
+}
+
+/**
+ * Maps files to their owning teams using the repository's CODEOWNERS file. As on GitHub,
+ * the last matching rule wins.
+ */
+export class CodeOwners {
+  private rules: OwnershipRule[];
+
+  constructor(rules: OwnershipRule[] = []) {
+    this.rules = rules;
+  }
+
+  static async load(cwd: string = process.cwd()): Promise<CodeOwners> {
+    for (const file of CODEOWNERS_FILES) {
+      const filePath = path.join(cwd, file);
+      if (await fs.pathExists(filePath)) {
+        return CodeOwners.parse(await fs.readFile(filePath, 'utf-8'));
+      }
+    }
+    return new CodeOwners();
+  }
+
+  static parse(content: string): CodeOwners {
+    const rules: OwnershipRule[] = [];
+
+    for (const line of content.split('\n')) {
+      const [pattern, ...owners] = line.replace(/(^|\s)#.*$/, '').trim().split(/\s+/);
+      if (pattern) {
+        rules.push({ pattern: globToRegExp(pattern), owners });
+      }
+    }
+
+    return new CodeOwners(rules);
+  }
+
+  get isEmpty(): boolean {
+    return this.rules.length === 0;
+  }
+
+  /**
+   * Returns the owners of a file relative to the repository root; empty when it has none.
+   */
+  ownersOf(file: string): string[] {
+    const normalized = file.split(path.sep).join('/');
+
+    for (let index = this.rules.length - 1; index >= 0; index--) {
+      if (this.rules[index].pattern.test(normalized)) {
+        return this.rules[index].owners;
+      }
+    }
+
+    return [];
+  }
+}
+
+/**
+ * Converts a gitignore-style pattern (as used by CODEOWNERS) to a regular expression over
+ * file paths. A pattern also matches everything inside a directory it matches.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  // Patterns with a leading or inner slash are relative to the root, others match at any depth
+  const anchored = pattern.replace(/\/$/, '').includes('/');
+  const body = pattern
+    .replace(/^\//, '')
+    .replace(/\/$/, '')
+    .split(/(\*\*\/|\/\*\*|\*\*|\*|\?)/)
+    .map(part => {
+      switch (part) {
+        case '**/': return '(?:.*/)?';
+        case '/**': return '(?:/.*)?';
+        case '**': return '.*';
+        case '*': return '[^/]*';
+        case '?': return '[^/]';
+        default: return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    })
+    .join('');
+
+  // `docs/*` owns the files directly in docs/, but not those in its subdirectories
+  const contents = pattern.endsWith('/*') ? '' : '(?:/.*)?';
+
+  return new RegExp(`${anchored ? '^' : '(?:^|/)'}${body}${contents}$`);
+}
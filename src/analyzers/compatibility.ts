@@ -1,30 +1,110 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { glob } from 'glob';
+import jscodeshift, { Collection } from 'jscodeshift';
+import semver, { SemVer } from 'semver';
+import { TransformationFile, TransformationRegistry } from '../transformers/registry';
+import type { WorkerPool } from '../transformers/pool';
+import { AnalysisCache, ruleKey } from './cache';
+import { CodeOwners } from './codeowners';
+import { DependencyChecker, DependencyIssue } from './dependencies';
+import { EffortBreakdown, estimateEffort, formatMinutes } from './effort';
+import { Finding } from './findings';
+import { InstalledVersion, LockfileResolver } from './lockfile';
+import { buildRouteMap, findSlotsWithoutDefault } from './routes';
+import { findNodeVersionPins, MIN_NODE_VERSION, NodeVersionPin } from './runtime';
+import { DEFAULT_PAGE_EXTENSIONS, loadApp, NextApp } from './workspace';
+
+const SOURCE_FILES = '**/*.{tsx,jsx,ts,js}';
+// Dependencies, build output and tool state rather than application code
+const IGNORED_FILES = [
+  '**/node_modules/**',
+  '**/.next/**',
+  '**/dist/**',
+  '**/build/**',
+  '**/out/**',
+  '**/coverage/**',
+  '**/.turbo/**',
+  '**/.vercel/**',
+  '**/.nextjs16-migrator/**',
+  '**/*.d.ts'
+];
+// Packages whose installed versions are always resolved
+const CORE_PACKAGES = ['next', 'react', 'react-dom'];
 
 export interface ProjectAnalysis {
+  // The Next.js app this analysis covers
+  app?: NextApp;
   isCompatible: boolean;
+  // Installed Next.js version, or the declared specifier when it could not be resolved
   currentVersion: string;
+  installedVersions: Record<string, InstalledVersion>;
   filesToTransform: FileToTransform[];
   issues: string[];
+  // Dependencies that need an upgrade or replacement for Next.js 16
+  dependencyIssues: DependencyIssue[];
+  // Node.js versions pinned by engines, .nvmrc, Dockerfiles, CI workflows, etc.
+  nodeVersionPins: NodeVersionPin[];
+  // Parallel route slot directories without a default.js
+  missingSlotDefaults: string[];
   recommendations: string[];
   complexity: 'low' | 'medium' | 'high';
   estimatedTime: string;
+  // Estimated minutes of work by rule, route and team
+  effort?: EffortBreakdown;
 }
 
 export interface FileToTransform {
   path: string;
   type: 'middleware' | 'config' | 'component' | 'api' | 'other';
   transformations: string[];
+  findings: Finding[];
+  // Root and pageExtensions of the app the file belongs to
+  appRoot?: string;
+  pageExtensions?: string[];
+}
+
+export interface AnalyzerOptions {
+  // Spread per-file analysis across worker threads
+  pool?: WorkerPool;
+  // Reuse results for unchanged files from .nextjs16-migrator/cache
+  cache?: boolean;
+  // Read the cache without writing it, e.g. on --dry-run
+  readOnlyCache?: boolean;
+  // The app to analyze; defaults to the app at the working directory
+  app?: NextApp;
 }
 
 export class ProjectAnalyzer {
+  private registry: TransformationRegistry;
+  private pool?: WorkerPool;
+  private cache: boolean;
+  private readOnlyCache: boolean;
+  private app?: NextApp;
+
+  constructor(registry: TransformationRegistry = TransformationRegistry.withBuiltins(), options: AnalyzerOptions = {}) {
+    this.registry = registry;
+    this.pool = options.pool;
+    this.cache = options.cache || false;
+    this.readOnlyCache = options.readOnlyCache || false;
+    this.app = options.app;
+  }
+
   async analyze(): Promise<ProjectAnalysis> {
+    if (!this.app) {
+      this.app = await loadApp(process.cwd());
+    }
+    
     const analysis: ProjectAnalysis = {
+      app: this.app,
       isCompatible: true,
       currentVersion: 'unknown',
+      installedVersions: {},
       filesToTransform: [],
       issues: [],
+      dependencyIssues: [],
+      nodeVersionPins: [],
+      missingSlotDefaults: [],
       recommendations: [],
       complexity: 'low',
       estimatedTime: '5-10 minutes'
@@ -40,13 +120,13 @@ export class ProjectAnalyzer {
     await this.checkCompatibility(analysis);
     
     // Calculate complexity and estimated time
-    this.calculateComplexity(analysis);
+    await this.calculateComplexity(analysis);
     
     return analysis;
   }
 
   private async analyzePackageJson(analysis: ProjectAnalysis): Promise<void> {
-    const packageJsonPath = path.join(process.cwd(), 'package.json');
+    const packageJsonPath = path.join(process.cwd(), this.app.root, 'package.json');
     
     if (!await fs.pathExists(packageJsonPath)) {
       analysis.issues.push('No package.json found');
@@ -55,34 +135,40 @@ export class ProjectAnalyzer {
     }
     
     const packageJson = await fs.readJson(packageJsonPath);
+    const dependencies: Record<string, string> = { ...packageJson.devDependencies, ...packageJson.dependencies };
+    const checker = await DependencyChecker.load(Array.from(new Set([process.cwd(), path.join(process.cwd(), this.app.root)])));
+    
+    // Resolve what is actually installed from the lockfile or node_modules
+    const resolver = await LockfileResolver.load(process.cwd(), this.app.root);
+    for (const name of Object.keys(dependencies)) {
+      if (CORE_PACKAGES.includes(name) || checker.lookup(name)) {
+        const installed = await resolver.resolve(name, dependencies[name]);
+        if (installed) {
+          analysis.installedVersions[name] = installed;
+        }
+      }
+    }
     
     // Check Next.js version
-    const nextVersion = packageJson.dependencies?.next || packageJson.devDependencies?.next;
+    const nextVersion = dependencies.next;
     if (nextVersion) {
-      analysis.currentVersion = nextVersion;
-      
-      // Check if version is compatible for migration
-      const version = this.parseVersion(nextVersion);
-      if (version.major < 14) {
-        analysis.issues.push(`Next.js version ${nextVersion} is too old. Need version 14+ for migration to 16.`);
-        analysis.isCompatible = false;
-      }
+      analysis.currentVersion = analysis.installedVersions.next?.version || nextVersion;
+      this.checkNextVersion(analysis, nextVersion);
     } else {
       analysis.issues.push('Next.js not found in dependencies');
       analysis.isCompatible = false;
     }
     
-    // Check for problematic dependencies
-    const problematicDeps = [
-      'next-amp',
-      'next-pwa',
-      'next-seo'
-    ];
+    // Check dependencies against the compatibility dataset
+    analysis.dependencyIssues = checker.check(dependencies, analysis.installedVersions);
     
-    for (const dep of problematicDeps) {
-      if (packageJson.dependencies?.[dep] || packageJson.devDependencies?.[dep]) {
-        analysis.issues.push(`Dependency ${dep} may not be compatible with Next.js 16`);
-        analysis.recommendations.push(`Consider updating or removing ${dep}`);
+    for (const issue of analysis.dependencyIssues) {
+      if (issue.kind === 'outdated') {
+        analysis.recommendations.push(`Upgrade ${issue.name} to ${issue.suggestedRange}`);
+      } else if (issue.replacement) {
+        analysis.recommendations.push(`Replace ${issue.name} with ${issue.replacement}`);
+      } else {
+        analysis.recommendations.push(`Remove ${issue.name}`);
       }
     }
   }
@@ -91,88 +177,168 @@ export class ProjectAnalyzer {
     const patterns = [
       'middleware.ts',
       'middleware.js',
+      'src/middleware.ts',
+      'src/middleware.js',
+      'proxy.ts',
+      'proxy.js',
+      'src/proxy.ts',
+      'src/proxy.js',
+      'package.json',
       'next.config.js',
       'next.config.ts',
       'next.config.mjs',
-      'pages/**/*.tsx',
-      'pages/**/*.jsx',
-      'pages/**/*.ts',
-      'pages/**/*.js',
-      'app/**/*.tsx',
-      'app/**/*.jsx',
-      'app/**/*.ts',
-      'app/**/*.js',
-      'components/**/*.tsx',
-      'components/**/*.jsx',
-      'lib/**/*.ts',
-      'lib/**/*.js',
-      'utils/**/*.ts',
-      'utils/**/*.js'
-    ];
+      'next.config.cjs',
+      // The app's whole source tree, wherever its code lives
+      SOURCE_FILES
+    ].map(pattern => this.scoped(pattern));
     
+    // Shared workspace packages the app imports
+    patterns.push(...this.app.packages.map(pkg => `${pkg}/${SOURCE_FILES}`));
+    
+    const ignore = [...IGNORED_FILES, ...await this.nestedPackages()];
+    
+    // Sort matches so results are deterministic regardless of file system order
+    const files = new Set<string>();
     for (const pattern of patterns) {
-      const files = await glob(pattern, { cwd: process.cwd() });
-      
-      for (const file of files) {
-        const fileAnalysis = await this.analyzeFile(file);
-        if (fileAnalysis.transformations.length > 0) {
-          analysis.filesToTransform.push(fileAnalysis);
-        }
-      }
+      const matches = await glob(pattern, { cwd: process.cwd(), ignore });
+      matches.sort().forEach(file => files.add(file));
     }
-  }
-
-  private async analyzeFile(filePath: string): Promise<FileToTransform> {
-    const fullPath = path.join(process.cwd(), filePath);
-    const content = await fs.readFile(fullPath, 'utf-8');
     
-    const fileToTransform: FileToTransform = {
-      path: filePath,
-      type: this.getFileType(filePath),
-      transformations: []
-    };
+    const cache = this.cache
+      ? await AnalysisCache.load(this.registry.list().map(ruleKey), {
+        name: this.app.root ? `analysis-${this.app.root.replace(/[^\w.-]+/g, '_')}` : 'analysis',
+        settings: { pageExtensions: this.app.pageExtensions, packages: this.app.packages },
+        readOnly: this.readOnlyCache
+      })
+      : undefined;
+    const results = new Map<string, FileToTransform>();
+    const hashes = new Map<string, string>();
+    const pending: string[] = [];
     
-    // Check for middleware.ts → proxy.ts transformation
-    if (filePath === 'middleware.ts' || filePath === 'middleware.js') {
-      fileToTransform.transformations.push('middleware-to-proxy');
+    for (const file of files) {
+      if (cache) {
+        const hash = AnalysisCache.hash(await fs.readFile(path.join(process.cwd(), file), 'utf-8'));
+        const findings = cache.get(file, hash);
+        hashes.set(file, hash);
+        
+        if (findings) {
+          results.set(file, this.createFileToTransform(file, findings));
+          continue;
+        }
+      }
+      pending.push(file);
     }
     
-    // Check for cache API usage
-    if (content.includes('revalidateTag') && !content.includes('cacheLife')) {
-      fileToTransform.transformations.push('update-revalidate-tag');
+    for (const [file, result] of await this.analyzeFiles(pending)) {
+      if (result instanceof Error) {
+        analysis.issues.push(`Could not analyze ${file}: ${result.message}`);
+        continue;
+      }
+      results.set(file, result);
+      cache?.set(file, hashes.get(file), result.findings);
     }
     
-    if (content.includes('revalidateTag(') && !content.includes('revalidateTag(')) {
-      fileToTransform.transformations.push('add-cache-life-profile');
+    // Merge in glob order so cached and fresh results interleave deterministically
+    for (const file of files) {
+      const fileAnalysis = results.get(file);
+      if (fileAnalysis && fileAnalysis.transformations.length > 0) {
+        analysis.filesToTransform.push(fileAnalysis);
+      }
     }
     
-    // Check for next/image usage
-    if (content.includes('next/image') || content.includes('next/legacy/image')) {
-      fileToTransform.transformations.push('update-next-image');
-    }
+    await cache?.save(Array.from(files));
+  }
+
+  private async analyzeFiles(files: string[]): Promise<Map<string, FileToTransform | Error>> {
+    const results = new Map<string, FileToTransform | Error>();
     
-    // Check for async params usage
-    if (content.includes('params') && !content.includes('await params')) {
-      fileToTransform.transformations.push('make-params-async');
+    if (this.pool && this.registry.canRunInWorkers()) {
+      const outputs = await this.pool.run<FileToTransform>(files.map(file => ({ type: 'analyze' as const, file, app: this.app })));
+      files.forEach((file, index) => {
+        const output = outputs[index];
+        results.set(file, output.error ? new Error(output.error.message) : output.value);
+      });
+      return results;
     }
     
-    if (content.includes('searchParams') && !content.includes('await searchParams')) {
-      fileToTransform.transformations.push('make-search-params-async');
+    for (const file of files) {
+      results.set(file, await this.analyzeFile(file));
     }
+    return results;
+  }
+
+  async analyzeFile(filePath: string): Promise<FileToTransform> {
+    const fullPath = path.join(process.cwd(), filePath);
+    const content = await fs.readFile(fullPath, 'utf-8');
+    const file = this.createTransformationFile(filePath, content);
+    const findings: Finding[] = [];
     
-    // Check for cookies/headers usage
-    if ((content.includes('cookies()') || content.includes('headers()')) && !content.includes('await cookies()') && !content.includes('await headers()')) {
-      fileToTransform.transformations.push('make-cookies-headers-async');
+    for (const plugin of this.registry.list()) {
+      const detected = plugin.detect(file);
+      
+      // Plugins that return true flag the file as a whole
+      if (detected === true) {
+        findings.push({
+          ruleId: plugin.id,
+          file: filePath,
+          line: 1,
+          column: 1,
+          message: plugin.description,
+          severity: 'warning',
+          fixable: plugin.fixable !== false
+        });
+      } else if (Array.isArray(detected)) {
+        detected.forEach(detection => {
+          findings.push({ severity: 'warning', fixable: plugin.fixable !== false, ...detection, ruleId: plugin.id, file: filePath });
+        });
+      }
     }
     
-    return fileToTransform;
+    findings.sort((a, b) => a.line - b.line || a.column - b.column);
+    
+    return this.createFileToTransform(filePath, findings);
+  }
+
+  private createFileToTransform(filePath: string, findings: Finding[]): FileToTransform {
+    const ruleIds = Array.from(new Set(findings.map(finding => finding.ruleId)));
+    
+    return {
+      path: filePath,
+      type: this.getFileType(filePath),
+      transformations: this.registry.sort(ruleIds),
+      findings,
+      appRoot: this.app?.root || '',
+      pageExtensions: this.app?.pageExtensions || DEFAULT_PAGE_EXTENSIONS
+    };
+  }
+
+  private createTransformationFile(filePath: string, content: string): TransformationFile {
+    let root: Collection | null | undefined;
+    
+    // Parsed lazily so path-only detectors never pay for a parse
+    return {
+      path: filePath,
+      content,
+      appRoot: this.app?.root || '',
+      pageExtensions: this.app?.pageExtensions || DEFAULT_PAGE_EXTENSIONS,
+      get root() {
+        if (root === undefined) {
+          try {
+            root = jscodeshift.withParser('tsx')(content);
+          } catch {
+            root = null;
+          }
+        }
+        return root || undefined;
+      }
+    };
   }
 
   private getFileType(filePath: string): FileToTransform['type'] {
     if (filePath.includes('middleware') || filePath.includes('proxy')) {
       return 'middleware';
     }
-    if (filePath.includes('next.config')) {
+    if (filePath.includes('next.config') || path.basename(filePath) === 'package.json') {
       return 'config';
     }
     if (filePath.includes('pages/api') || filePath.includes('app/api')) {
@@ -186,56 +352,98 @@ export class ProjectAnalyzer {
 
   private async checkCompatibility(analysis: ProjectAnalysis): Promise<void> {
     // Check for AMP usage
-    const ampFiles = await glob('**/*.amp.*', { cwd: process.cwd() });
+    const ampFiles = await glob(this.scoped('**/*.amp.*'), { cwd: process.cwd(), ignore: IGNORED_FILES });
     if (ampFiles.length > 0) {
       analysis.issues.push('AMP support has been removed in Next.js 16');
       analysis.recommendations.push('Remove AMP files and configurations');
     }
     
-    // Check for experimental PPR usage
-    const configFiles = await glob('next.config.*', { cwd: process.cwd() });
-    for (const configFile of configFiles) {
-      const content = await fs.readFile(path.join(process.cwd(), configFile), 'utf-8');
-      if (content.includes('experimental.ppr')) {
-        analysis.issues.push('experimental.ppr flag has been removed in Next.js 16');
-        analysis.recommendations.push('Use cacheComponents configuration instead');
-      }
+    // Check the Node.js versions the project is developed, tested and deployed with
+    analysis.nodeVersionPins = await findNodeVersionPins(process.cwd(), this.app.root);
+    const outdatedPins = analysis.nodeVersionPins.filter(pin => !pin.supported);
+    outdatedPins.forEach(pin => {
+      analysis.issues.push(`${pin.file}:${pin.line} pins Node.js ${pin.value}. Next.js 16 requires Node.js ${MIN_NODE_VERSION}+`);
+    });
+    if (outdatedPins.length > 0) {
+      analysis.recommendations.push(`Update Node.js version pins to ${MIN_NODE_VERSION}+ (or run migrate with --bump-node)`);
     }
     
-    // Check Node.js version
-    const nodeVersion = process.version;
-    const majorVersion = parseInt(nodeVersion.slice(1).split('.')[0]);
-    if (majorVersion < 20) {
-      analysis.issues.push(`Node.js ${nodeVersion} is not supported. Next.js 16 requires Node.js 20.9+`);
-      analysis.isCompatible = false;
+    // Check that every parallel route slot has a default.js to fall back to
+    analysis.missingSlotDefaults = await findSlotsWithoutDefault(this.app);
+    analysis.missingSlotDefaults.forEach(slot => {
+      analysis.issues.push(`Parallel route slot ${slot} has no default.js; Next.js 16 fails the build without one`);
+    });
+    if (analysis.missingSlotDefaults.length > 0) {
+      analysis.recommendations.push('Add default.js to every parallel route slot (migrate creates them)');
     }
   }
 
-  private calculateComplexity(analysis: ProjectAnalysis): void {
-    const fileCount = analysis.filesToTransform.length;
-    const issueCount = analysis.issues.length;
+  /**
+   * Ignore patterns for packages nested inside the app (e.g. the apps/ of a monorepo whose
+   * root is also an app); they are analyzed as apps of their own, or as packages the app imports.
+   */
+  private async nestedPackages(): Promise<string[]> {
+    const manifests = await glob(this.scoped('*/**/package.json'), { cwd: process.cwd(), ignore: IGNORED_FILES });
+    return manifests
+      .map(manifest => path.dirname(manifest).split(path.sep).join('/'))
+      .filter(dir => !this.app.packages.includes(dir))
+      .map(dir => `${dir}/**`);
+  }
+
+  private scoped(pattern: string): string {
+    return this.app?.root ? `${this.app.root}/${pattern}` : pattern;
+  }
+
+  private async calculateComplexity(analysis: ProjectAnalysis): Promise<void> {
+    const routes = await buildRouteMap(this.app, analysis.filesToTransform, process.cwd(), { segmentConfig: false });
+    analysis.effort = estimateEffort(analysis, this.registry, routes, await CodeOwners.load());
     
-    if (fileCount > 50 || issueCount > 5) {
+    const { automated, manual } = analysis.effort.total;
+    const minutes = automated + manual;
+    
+    if (minutes > 240) {
       analysis.complexity = 'high';
-      analysis.estimatedTime = '30-60 minutes';
-    } else if (fileCount > 20 || issueCount > 2) {
+    } else if (minutes > 60) {
       analysis.complexity = 'medium';
-      analysis.estimatedTime = '15-30 minutes';
     } else {
       analysis.complexity = 'low';
-      analysis.estimatedTime = '5-15 minutes';
     }
+    analysis.estimatedTime = `${formatMinutes(minutes)} (${formatMinutes(automated)} reviewing automated changes, ${formatMinutes(manual)} manual)`;
   }
 
-  private parseVersion(version: string): { major: number; minor: number; patch: number } {
-    const match = version.match(/(\d+)\.(\d+)\.(\d+)/);
-    if (match) {
-      return {
-        major: parseInt(match[1]),
-        minor: parseInt(match[2]),
-        patch: parseInt(match[3])
-      };
+  private checkNextVersion(analysis: ProjectAnalysis, specifier: string): void {
+    const installed = analysis.installedVersions.next;
+    let version: SemVer | null = installed ? semver.parse(installed.version) : null;
+    
+    if (!version) {
+      // Not installed: judge by the lowest version the declared range allows
+      version = semver.validRange(specifier) ? semver.minVersion(specifier) : null;
+    }
+    
+    if (!version) {
+      if (specifier === 'canary') {
+        analysis.issues.push('Next.js is pinned to the canary tag; canary builds may already include Next.js 16 behaviors, so review findings before migrating');
+      } else {
+        analysis.issues.push(`Could not resolve the installed Next.js version from "${specifier}". Install dependencies so it can be read from the lockfile or node_modules.`);
+      }
+      return;
+    }
+    
+    if (version.major < 14) {
+      analysis.issues.push(`Next.js version ${version.version} is too old. Need version 14+ for migration to 16.`);
+      analysis.isCompatible = false;
+      return;
+    }
+    
+    if (version.prerelease.length > 0) {
+      // Canaries and release candidates ship parts of the next major before it is released
+      if (semver.gte(version, '16.0.0-0')) {
+        analysis.recommendations.push(`Next.js ${version.version} is a 16 prerelease; upgrade to the stable 16.0.0 release`);
+      } else {
+        analysis.issues.push(`Next.js ${version.version} is a prerelease build; it may already include some Next.js 16 behaviors, so review findings before migrating`);
+      }
+    } else if (version.major >= 16) {
+      analysis.recommendations.push(`Next.js ${version.version} is already on version 16; remaining findings are leftover code to update`);
     }
-    return { major: 0, minor: 0, patch: 0 };
   }
 }
@@ -0,0 +1,162 @@
+import fs from 'fs-extra';
+import path from 'path';
+import semver from 'semver';
+import bundledDataset from '../data/compatibility.json';
+import { InstalledVersion } from './lockfile';
+
+export const LOCAL_COMPATIBILITY_FILE = 'nextjs16-migrator.compatibility.json';
+
+export interface CompatibilityEntry {
+  // Lowest version known to work with Next.js 16
+  minVersion?: string;
+  suggestedRange?: string;
+  // Known breaking changes when upgrading
+  breaking?: string[];
+  // The package no longer works and must be dropped or replaced
+  removed?: boolean;
+  replacement?: string;
+  notes?: string;
+}
+
+export interface CompatibilityDataset {
+  version: string;
+  // Next.js version the dataset describes
+  target: string;
+  // Keys are package names or scope wildcards such as "@next/*"
+  packages: Record<string, CompatibilityEntry>;
+}
+
+export interface DependencyIssue {
+  name: string;
+  // Installed version when it could be resolved, otherwise the declared range
+  installed: string;
+  kind: 'outdated' | 'removed' | 'replaceable';
+  message: string;
+  suggestedRange?: string;
+  replacement?: string;
+  breaking: string[];
+}
+
+/**
+ * Checks dependencies against the bundled compatibility dataset, extended by
+ * nextjs16-migrator.compatibility.json files in the project.
+ */
+export class DependencyChecker {
+  private dataset: CompatibilityDataset;
+
+  constructor(dataset: CompatibilityDataset = bundledDataset as CompatibilityDataset) {
+    this.dataset = dataset;
+  }
+
+  /**
+   * Loads the bundled dataset plus local overrides; later directories win.
+   */
+  static async load(dirs: string[] = [process.cwd()]): Promise<DependencyChecker> {
+    const dataset: CompatibilityDataset = {
+      ...(bundledDataset as CompatibilityDataset),
+      packages: { ...(bundledDataset as CompatibilityDataset).packages }
+    };
+
+    for (const dir of dirs) {
+      const localPath = path.join(dir, LOCAL_COMPATIBILITY_FILE);
+      if (!await fs.pathExists(localPath)) {
+        continue;
+      }
+
+      let local: Partial<CompatibilityDataset>;
+      try {
+        local = await fs.readJson(localPath);
+      } catch (error) {
+        throw new Error(`Failed to read ${localPath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      Object.entries(local.packages || {}).forEach(([name, entry]) => {
+        dataset.packages[name] = { ...dataset.packages[name], ...entry };
+      });
+    }
+
+    return new DependencyChecker(dataset);
+  }
+
+  get version(): string {
+    return this.dataset.version;
+  }
+
+  get target(): string {
+    return this.dataset.target;
+  }
+
+  lookup(name: string): CompatibilityEntry | undefined {
+    if (this.dataset.packages[name]) {
+      return this.dataset.packages[name];
+    }
+
+    const scope = name.startsWith('@') ? name.split('/')[0] : undefined;
+    return scope ? this.dataset.packages[`${scope}/*`] : undefined;
+  }
+
+  /**
+   * Reports dependencies that are below their minimum version or need replacing. Installed
+   * versions are preferred; otherwise the lowest version the declared range allows is used.
+   */
+  check(dependencies: Record<string, string>, installedVersions: Record<string, InstalledVersion> = {}): DependencyIssue[] {
+    const issues: DependencyIssue[] = [];
+
+    for (const [name, range] of Object.entries(dependencies).sort(([a], [b]) => a.localeCompare(b))) {
+      const entry = this.lookup(name);
+      if (!entry) {
+        continue;
+      }
+
+      const installed = installedVersions[name]?.version || range;
+
+      const breaking = entry.breaking || [];
+      const notes = entry.notes ? ` (${entry.notes})` : '';
+
+      if (entry.removed) {
+        issues.push({
+          name,
+          installed,
+          kind: 'removed',
+          message: `${name} is not compatible with Next.js ${this.dataset.target}${entry.replacement ? `; replace it with ${entry.replacement}` : '; remove it'}${notes}`,
+          replacement: entry.replacement,
+          breaking
+        });
+      } else if (entry.minVersion && isBelow(installed, entry.minVersion)) {
+        const suggestedRange = entry.suggestedRange || `^${entry.minVersion}`;
+        issues.push({
+          name,
+          installed,
+          kind: 'outdated',
+          message: `${name}@${installed} is below the minimum compatible version ${entry.minVersion}; upgrade to ${suggestedRange}${notes}`,
+          suggestedRange,
+          breaking
+        });
+      } else if (!entry.minVersion && entry.replacement) {
+        issues.push({
+          name,
+          installed,
+          kind: 'replaceable',
+          message: `${name} can be replaced with ${entry.replacement}${notes}`,
+          replacement: entry.replacement,
+          breaking
+        });
+      }
+    }
+
+    return issues;
+  }
+}
+
+/**
+ * Compares a version (or the lowest version a range allows) against a minimum version.
+ * Specifiers that are not semver ranges (tags, URLs, workspace:) are never reported.
+ */
+function isBelow(versionOrRange: string, minVersion: string): boolean {
+  const version = semver.valid(versionOrRange) || (semver.validRange(versionOrRange) ? semver.minVersion(versionOrRange)?.version : null);
+
+  // Local datasets may use short forms such as "2" or "2.1"
+  const minimum = semver.valid(minVersion) || semver.coerce(minVersion)?.version;
+
+  return version && minimum ? semver.lt(version, minimum) : false;
+}
@@ -0,0 +1,152 @@
+import path from 'path';
+import type { TransformationRegistry } from '../transformers/registry';
+import { CodeOwners } from './codeowners';
+import type { ProjectAnalysis } from './compatibility';
+import type { Route } from './routes';
+
+// Minutes to resolve one finding by hand when its rule declares no effort
+export const DEFAULT_EFFORT = 5;
+
+// Share of a rule's effort still spent reviewing a change the migrator made
+const REVIEW_RATIO = 0.2;
+
+// Minutes for project-level work found outside source files
+const DEPENDENCY_EFFORT: Record<string, number> = { outdated: 10, replaceable: 20, removed: 30 };
+const NODE_PIN_EFFORT = 5;
+const SLOT_DEFAULT_EFFORT = 1;
+
+export const SHARED_CODE = '(shared code)';
+export const UNOWNED = '(unowned)';
+
+export interface Effort {
+  items: number;
+  // Minutes spent reviewing automated changes
+  automated: number;
+  // Minutes of manual follow-up
+  manual: number;
+}
+
+export interface EffortBreakdown {
+  total: Effort;
+  byRule: Record<string, Effort>;
+  byRoute: Record<string, Effort>;
+  // Keyed by CODEOWNERS team (owners joined with a space)
+  byOwner: Record<string, Effort>;
+}
+
+interface WorkItem {
+  rule: string;
+  file: string;
+  minutes: number;
+  fixable: boolean;
+}
+
+/**
+ * Estimates migration effort from the analysis. Every finding is weighted by its rule's
+ * effort; automated fixes only count their review time. Work is attributed to the route
+ * and the CODEOWNERS team of the file it is in.
+ */
+export function estimateEffort(analysis: ProjectAnalysis, registry: TransformationRegistry, routes: Route[] = [], owners: CodeOwners = new CodeOwners()): EffortBreakdown {
+  const items: WorkItem[] = [];
+
+  for (const file of analysis.filesToTransform) {
+    for (const finding of file.findings) {
+      items.push({ rule: finding.ruleId, file: file.path, minutes: registry.get(finding.ruleId)?.effort ?? DEFAULT_EFFORT, fixable: finding.fixable });
+    }
+  }
+
+  const manifest = analysis.app?.root ? `${analysis.app.root}/package.json` : 'package.json';
+  analysis.dependencyIssues.forEach(issue => {
+    items.push({ rule: 'dependencies', file: manifest, minutes: DEPENDENCY_EFFORT[issue.kind], fixable: false });
+  });
+  analysis.nodeVersionPins.filter(pin => !pin.supported).forEach(pin => {
+    items.push({ rule: 'node-version', file: pin.file, minutes: NODE_PIN_EFFORT, fixable: true });
+  });
+  analysis.missingSlotDefaults.forEach(slot => {
+    items.push({ rule: 'slot-defaults', file: `${slot}/default.js`, minutes: SLOT_DEFAULT_EFFORT, fixable: true });
+  });
+
+  // Files that do not exist yet (e.g. a slot's default.js) belong to their directory's route
+  const routeOf = new Map<string, string>();
+  const routeOfDir = new Map<string, string>();
+  routes.forEach(route => {
+    const label = route.slot ? `${route.pattern} (@${route.slot})` : route.pattern;
+    route.files.forEach(file => {
+      routeOf.set(file.path, label);
+      if (!routeOfDir.has(path.posix.dirname(file.path))) {
+        routeOfDir.set(path.posix.dirname(file.path), label);
+      }
+    });
+  });
+
+  const breakdown: EffortBreakdown = { total: emptyEffort(), byRule: {}, byRoute: {}, byOwner: {} };
+
+  for (const item of items) {
+    const team = owners.ownersOf(item.file).join(' ') || UNOWNED;
+    const route = routeOf.get(item.file) || routeOfDir.get(path.posix.dirname(item.file)) || SHARED_CODE;
+
+    [breakdown.total, entry(breakdown.byRule, item.rule), entry(breakdown.byRoute, route), entry(breakdown.byOwner, team)]
+      .forEach(effort => {
+        effort.items++;
+        if (item.fixable) {
+          effort.automated += item.minutes * REVIEW_RATIO;
+        } else {
+          effort.manual += item.minutes;
+        }
+      });
+  }
+
+  return breakdown;
+}
+
+/**
+ * Combines the breakdowns of several apps; route keys are prefixed with the app name.
+ */
+export function mergeEffort(breakdowns: (EffortBreakdown | undefined)[], appNames: string[] = []): EffortBreakdown {
+  const merged: EffortBreakdown = { total: emptyEffort(), byRule: {}, byRoute: {}, byOwner: {} };
+
+  breakdowns.forEach((breakdown, index) => {
+    if (!breakdown) {
+      return;
+    }
+
+    addEffort(merged.total, breakdown.total);
+    (['byRule', 'byOwner'] as const).forEach(key => {
+      Object.entries(breakdown[key]).forEach(([name, effort]) => addEffort(entry(merged[key], name), effort));
+    });
+    Object.entries(breakdown.byRoute).forEach(([route, effort]) => {
+      addEffort(entry(merged.byRoute, appNames[index] ? `[${appNames[index]}] ${route}` : route), effort);
+    });
+  });
+
+  return merged;
+}
+
+/**
+ * Formats minutes as e.g. `1h 30m`, rounding up to whole minutes.
+ */
+export function formatMinutes(minutes: number): string {
+  const rounded = Math.ceil(minutes);
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+
+  if (hours === 0) {
+    return `${rest}m`;
+  }
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+function emptyEffort(): Effort {
+  return { items: 0, automated: 0, manual: 0 };
+}
+
+function entry(efforts: Record<string, Effort>, key: string): Effort {
+  efforts[key] = efforts[key] || emptyEffort();
+  return efforts[key];
+}
+
+function addEffort(target: Effort, effort: Effort): void {
+  target.items += effort.items;
+  target.automated += effort.automated;
+  target.manual += effort.manual;
+}
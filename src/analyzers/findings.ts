@@ -0,0 +1,46 @@
+export type FindingSeverity = 'error' | 'warning' | 'info';
+
+export interface Finding {
+  ruleId: string;
+  file: string;
+  // 1-based position of the code that needs to change
+  line: number;
+  column: number;
+  message: string;
+  severity: FindingSeverity;
+  // Whether the rule's transformation can fix it, or it needs a manual change
+  fixable: boolean;
+}
+
+/**
+ * A location reported by a rule's detector; the analyzer adds the rule and file.
+ */
+export interface Detection {
+  line: number;
+  column: number;
+  message: string;
+  severity?: FindingSeverity;
+  fixable?: boolean;
+}
+
+/**
+ * Builds a Detection at the start of an AST node.
+ */
+export function detectAt(node: any, message: string, options: Pick<Detection, 'severity' | 'fixable'> = {}): Detection {
+  const start = node?.loc?.start;
+
+  return {
+    line: start ? start.line : 1,
+    // Parsers report 0-based columns
+    column: start ? start.column + 1 : 1,
+    message,
+    ...options
+  };
+}
+
+/**
+ * Formats a finding as `file:line:column`.
+ */
+export function formatLocation(finding: Finding): string {
+  return `${finding.file}:${finding.line}:${finding.column}`;
+}
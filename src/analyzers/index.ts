@@ -1,2 +1,12 @@
+export * from './cache';
+export * from './codeowners';
 export * from './compatibility';
+export * from './dependencies';
+export * from './effort';
+export * from './findings';
+export * from './lockfile';
 export * from './performance';
+export * from './routes';
+export * from './runtime';
+export * from './upgrade';
+export * from './workspace';
@@ -0,0 +1,207 @@
+import fs from 'fs-extra';
+import path from 'path';
+
+export type VersionSource = 'package-lock.json' | 'yarn.lock' | 'pnpm-lock.yaml' | 'bun.lock' | 'node_modules';
+
+export interface InstalledVersion {
+  version: string;
+  // Where the version was read from
+  source: VersionSource;
+}
+
+const LOCKFILES: VersionSource[] = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lock'];
+
+/**
+ * Resolves the versions a project actually installs, from its lockfile or, failing that,
+ * from node_modules. The app's own directory is checked before the workspace root.
+ */
+export class LockfileResolver {
+  private cwd: string;
+  private appRoot: string;
+  private lockfile?: { source: VersionSource; dir: string; content: string; json?: any };
+
+  private constructor(cwd: string, appRoot: string) {
+    this.cwd = cwd;
+    this.appRoot = appRoot;
+  }
+
+  static async load(cwd: string = process.cwd(), appRoot: string = ''): Promise<LockfileResolver> {
+    const resolver = new LockfileResolver(cwd, appRoot);
+    const dirs = Array.from(new Set([path.join(cwd, appRoot), cwd]));
+
+    for (const dir of dirs) {
+      for (const source of LOCKFILES) {
+        const lockfilePath = path.join(dir, source);
+        if (!await fs.pathExists(lockfilePath)) {
+          continue;
+        }
+
+        const content = await fs.readFile(lockfilePath, 'utf-8');
+        resolver.lockfile = { source, dir, content };
+        if (source === 'package-lock.json') {
+          try {
+            resolver.lockfile.json = JSON.parse(content);
+          } catch {
+            resolver.lockfile = undefined;
+            continue;
+          }
+        }
+        return resolver;
+      }
+    }
+
+    return resolver;
+  }
+
+  get source(): VersionSource | undefined {
+    return this.lockfile?.source;
+  }
+
+  /**
+   * Returns the installed version of a package, or undefined when it is not installed.
+   * The declared specifier picks the right entry when a yarn.lock holds several.
+   */
+  async resolve(name: string, specifier?: string): Promise<InstalledVersion | undefined> {
+    const version = this.fromLockfile(name, specifier);
+    if (version) {
+      return { version, source: this.lockfile.source };
+    }
+
+    for (const dir of Array.from(new Set([path.join(this.cwd, this.appRoot), this.cwd]))) {
+      try {
+        const manifest = await fs.readJson(path.join(dir, 'node_modules', name, 'package.json'));
+        if (manifest.version) {
+          return { version: manifest.version, source: 'node_modules' };
+        }
+      } catch {
+        // Not installed in this directory
+      }
+    }
+
+    return undefined;
+  }
+
+  private fromLockfile(name: string, specifier?: string): string | undefined {
+    if (!this.lockfile) {
+      return undefined;
+    }
+
+    // The importer path of the app relative to the lockfile
+    const importer = path.relative(this.lockfile.dir, path.join(this.cwd, this.appRoot)).split(path.sep).join('/');
+
+    switch (this.lockfile.source) {
+      case 'package-lock.json':
+        return readPackageLock(this.lockfile.json, name, importer);
+      case 'yarn.lock':
+        return readYarnLock(this.lockfile.content, name, specifier);
+      case 'pnpm-lock.yaml':
+        return readPnpmLock(this.lockfile.content, name, importer || '.');
+      case 'bun.lock':
+        return readBunLock(this.lockfile.content, name);
+      default:
+        return undefined;
+    }
+  }
+}
+
+function readPackageLock(lock: any, name: string, importer: string): string | undefined {
+  // lockfileVersion 2+ lists packages by install path; nested installs win over hoisted ones
+  const nested = importer ? lock?.packages?.[`${importer}/node_modules/${name}`] : undefined;
+  const hoisted = lock?.packages?.[`node_modules/${name}`];
+
+  return nested?.version || hoisted?.version || lock?.dependencies?.[name]?.version;
+}
+
+function readYarnLock(content: string, name: string, specifier?: string): string | undefined {
+  let fallback: string | undefined;
+
+  for (const block of content.split(/\n\s*\n/)) {
+    const lines = block.split('\n').filter(line => line.trim() && !line.startsWith('#'));
+    const header = lines[0];
+    if (!header || /^\s/.test(header)) {
+      continue;
+    }
+
+    // Yarn 1: next@^15.0.0, "next@~15":  Yarn Berry: "next@npm:^15.0.0, next@npm:15.0.3":
+    const descriptors = header.replace(/:\s*$/, '').split(',').map(part => part.trim().replace(/^"|"$/g, ''));
+    const ranges = descriptors
+      .filter(descriptor => descriptor.slice(0, descriptor.lastIndexOf('@')) === name)
+      .map(descriptor => descriptor.slice(descriptor.lastIndexOf('@') + 1).replace(/^npm:/, ''));
+
+    if (ranges.length === 0) {
+      continue;
+    }
+
+    const versionLine = lines.find(line => /^\s+version:?\s/.test(line));
+    const version = versionLine?.trim().replace(/^version:?\s+/, '').replace(/^"|"$/g, '');
+    if (!version) {
+      continue;
+    }
+
+    if (!specifier || ranges.includes(specifier)) {
+      return version;
+    }
+    fallback = fallback || version;
+  }
+
+  return fallback;
+}
+
+function readPnpmLock(content: string, name: string, importer: string): string | undefined {
+  const lines = content.split('\n');
+  let body = lines;
+  let indent = 0;
+
+  // Workspaces (and lockfile v9) keep each project's dependencies under importers
+  const importersIndex = lines.findIndex(line => /^importers:\s*$/.test(line));
+  if (importersIndex !== -1) {
+    const start = lines.findIndex((line, index) => index > importersIndex && line.replace(/['"]/g, '').trim() === `${importer}:` && /^ {2}\S/.test(line));
+    if (start === -1) {
+      return undefined;
+    }
+
+    const end = lines.findIndex((line, index) => index > start && /^ {0,2}\S/.test(line));
+    body = lines.slice(start + 1, end === -1 ? undefined : end);
+    indent = 4;
+  }
+
+  const sectionPattern = new RegExp(`^ {${indent}}(dependencies|devDependencies|optionalDependencies):\\s*$`);
+  let inSection = false;
+
+  for (let index = 0; index < body.length; index++) {
+    const line = body[index];
+    const lineIndent = line.length - line.trimStart().length;
+
+    if (line.trim() && lineIndent <= indent) {
+      inSection = sectionPattern.test(line);
+      continue;
+    }
+    if (!inSection || lineIndent !== indent + 2) {
+      continue;
+    }
+
+    const entry = line.trim().match(/^['"]?(.+?)['"]?:\s*(.*)$/);
+    if (!entry || entry[1] !== name) {
+      continue;
+    }
+
+    // Lockfile v5 stores the version inline, v6+ in a nested version key
+    let version = entry[2];
+    if (!version) {
+      const nested = body.slice(index + 1).find(next => /^\s+version:/.test(next));
+      version = nested?.trim().replace(/^version:\s*/, '');
+    }
+
+    const clean = version?.replace(/^['"]|['"]$/g, '').replace(/[(_].*$/, '');
+    return clean && !clean.startsWith('link:') ? clean : undefined;
+  }
+
+  return undefined;
+}
+
+function readBunLock(content: string, name: string): string | undefined {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  const match = content.match(new RegExp(`"${escaped}":\\s*\\[\\s*"${escaped}@([^"]+)"`));
+
+  return match ? match[1] : undefined;
+}
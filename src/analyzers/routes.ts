@@ -0,0 +1,313 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { glob } from 'glob';
+import jscodeshift from 'jscodeshift';
+import { getProperty } from '../transformers/next-config';
+import type { FileToTransform } from './compatibility';
+import { Finding } from './findings';
+import { DEFAULT_PAGE_EXTENSIONS, NextApp } from './workspace';
+
+export type RouterKind = 'app' | 'pages';
+
+export type RouteFileKind =
+  | 'page'
+  | 'layout'
+  | 'template'
+  | 'loading'
+  | 'error'
+  | 'not-found'
+  | 'default'
+  | 'route'
+  | 'metadata'
+  | 'api'
+  | 'custom';
+
+export interface SegmentConfig {
+  dynamic?: string;
+  revalidate?: string;
+  runtime?: string;
+}
+
+export interface RouteFile {
+  // Path relative to the workspace root
+  path: string;
+  kind: RouteFileKind;
+  config: SegmentConfig;
+  findings: Finding[];
+}
+
+export interface Route {
+  router: RouterKind;
+  // URL pattern the route serves, e.g. /blog/[slug]
+  pattern: string;
+  // Parallel route slot (without the @), if the route renders into one
+  slot?: string;
+  // Pattern of the route an intercepting route is shown from
+  interceptedFrom?: string;
+  // Route groups the files sit in, without parentheses
+  groups: string[];
+  files: RouteFile[];
+  // Segment config merged across the route's files; pages win over layouts
+  config: SegmentConfig;
+  findings: Finding[];
+}
+
+// File names Next.js treats as segment files, in display order
+const SEGMENT_FILES: RouteFileKind[] = ['page', 'route', 'layout', 'template', 'loading', 'error', 'not-found', 'default'];
+const SEGMENT_ALIASES: Record<string, RouteFileKind> = { 'global-error': 'error', 'global-not-found': 'not-found' };
+
+// Metadata file conventions, matched on the name before the extension
+const METADATA_FILES = /^(favicon|icon\d*|apple-icon\d*|opengraph-image\d*|twitter-image\d*|sitemap|robots|manifest)$/;
+
+const SEGMENT_CONFIG_KEYS: (keyof SegmentConfig)[] = ['dynamic', 'revalidate', 'runtime'];
+const INTERCEPT_PREFIX = /^((?:\(\.{1,3}\))+)(.*)$/;
+const PAGES_CUSTOM_FILES = ['_app', '_document', '_error'];
+
+export interface RouteMapOptions {
+  // Parse route files for their segment config (on by default)
+  segmentConfig?: boolean;
+}
+
+/**
+ * Builds the app's route map from its app/ and pages/ directories (at the app root, or under
+ * src/ when there is none), attaching the analysis findings of each route's files.
+ */
+export async function buildRouteMap(app: NextApp, filesToTransform: FileToTransform[] = [], cwd: string = process.cwd(), options: RouteMapOptions = {}): Promise<Route[]> {
+  const findings = new Map(filesToTransform.map(file => [file.path, file.findings]));
+  const pageExtensions = app.pageExtensions || DEFAULT_PAGE_EXTENSIONS;
+  const routes = new Map<string, Route>();
+
+  for (const router of ['app', 'pages'] as RouterKind[]) {
+    const dir = await findRouterDir(cwd, app.root, router);
+    if (!dir) {
+      continue;
+    }
+
+    const files = (await glob('**/*', { cwd: path.join(cwd, dir), nodir: true, ignore: ['**/node_modules/**'] })).sort();
+
+    for (const file of files) {
+      const entry = router === 'app' ? readAppFile(file, pageExtensions) : readPagesFile(file, pageExtensions);
+      if (!entry) {
+        continue;
+      }
+
+      const filePath = path.join(dir, file).split(path.sep).join('/');
+      const key = [router, entry.pattern, entry.slot || '', entry.interceptedFrom || ''].join('|');
+      const route = routes.get(key) || {
+        router,
+        pattern: entry.pattern,
+        slot: entry.slot,
+        interceptedFrom: entry.interceptedFrom,
+        groups: [],
+        files: [],
+        config: {},
+        findings: []
+      };
+
+      const routeFile: RouteFile = {
+        path: filePath,
+        kind: entry.kind,
+        config: entry.kind === 'metadata' || options.segmentConfig === false ? {} : await readSegmentConfig(path.join(cwd, filePath), router),
+        findings: findings.get(filePath) || []
+      };
+
+      route.files.push(routeFile);
+      route.findings.push(...routeFile.findings);
+      entry.groups.forEach(group => {
+        if (!route.groups.includes(group)) {
+          route.groups.push(group);
+        }
+      });
+      routes.set(key, route);
+    }
+  }
+
+  return Array.from(routes.values())
+    .map(route => ({
+      ...route,
+      files: route.files.sort((a, b) => kindOrder(a.kind) - kindOrder(b.kind)),
+      config: mergeConfig(route.files)
+    }))
+    .sort((a, b) => a.router.localeCompare(b.router) || a.pattern.localeCompare(b.pattern) || (a.slot || '').localeCompare(b.slot || '') || (a.interceptedFrom || '').localeCompare(b.interceptedFrom || ''));
+}
+
+/**
+ * Returns the parallel route slot (`@slot`) directories under app/ that have no default file.
+ * Next.js 16 fails the build when a slot cannot fall back to one.
+ */
+export async function findSlotsWithoutDefault(app: NextApp, cwd: string = process.cwd()): Promise<string[]> {
+  const dir = await findRouterDir(cwd, app.root, 'app');
+  if (!dir) {
+    return [];
+  }
+
+  const pageExtensions = app.pageExtensions || DEFAULT_PAGE_EXTENSIONS;
+  const slots = (await glob('**/@*/', { cwd: path.join(cwd, dir), ignore: ['**/node_modules/**'] }))
+    .map(slot => slot.split(path.sep).join('/'))
+    .filter(slot => !slot.split('/').some(part => part.startsWith('_')))
+    .sort();
+  const missing: string[] = [];
+
+  for (const slot of slots) {
+    const slotPath = path.join(cwd, dir, slot);
+    if (!(await fs.stat(slotPath)).isDirectory()) {
+      continue;
+    }
+
+    const files = await fs.readdir(slotPath);
+    if (!files.some(file => getAppFileKind(file, pageExtensions) === 'default')) {
+      missing.push(path.join(dir, slot).split(path.sep).join('/'));
+    }
+  }
+
+  return missing;
+}
+
+async function findRouterDir(cwd: string, appRoot: string, router: RouterKind): Promise<string | undefined> {
+  for (const dir of [router, `src/${router}`]) {
+    const relative = path.join(appRoot, dir);
+    if (await fs.pathExists(path.join(cwd, relative))) {
+      return relative;
+    }
+  }
+  return undefined;
+}
+
+interface RouteEntry {
+  kind: RouteFileKind;
+  pattern: string;
+  slot?: string;
+  interceptedFrom?: string;
+  groups: string[];
+}
+
+function readAppFile(file: string, pageExtensions: string[]): RouteEntry | undefined {
+  const parts = file.split('/');
+  const fileName = parts.pop();
+
+  // Private folders are left out of routing
+  if (parts.some(part => part.startsWith('_'))) {
+    return undefined;
+  }
+
+  const kind = getAppFileKind(fileName, pageExtensions);
+  if (!kind) {
+    return undefined;
+  }
+
+  const segments: string[] = [];
+  const groups: string[] = [];
+  let slot: string;
+  let interceptedFrom: string;
+
+  for (const part of parts) {
+    const intercept = INTERCEPT_PREFIX.exec(part);
+
+    if (/^\(.+\)$/.test(part) && !intercept) {
+      groups.push(part.slice(1, -1));
+    } else if (part.startsWith('@')) {
+      slot = part.slice(1);
+    } else if (intercept) {
+      interceptedFrom = toPattern(segments);
+      const markers = intercept[1].match(/\(\.{1,3}\)/g);
+
+      // (.) is the same level, each (..) one level up and (...) the root
+      if (markers.includes('(...)')) {
+        segments.length = 0;
+      } else {
+        segments.splice(Math.max(0, segments.length - markers.filter(marker => marker === '(..)').length));
+      }
+      segments.push(intercept[2]);
+    } else {
+      segments.push(part);
+    }
+  }
+
+  return { kind, pattern: toPattern(segments), slot, interceptedFrom, groups };
+}
+
+function getAppFileKind(fileName: string, pageExtensions: string[]): RouteFileKind | undefined {
+  const extension = pageExtensions.find(ext => fileName.endsWith(`.${ext}`));
+  const name = extension ? fileName.slice(0, -extension.length - 1) : undefined;
+
+  if (name && (SEGMENT_FILES.includes(name as RouteFileKind) || SEGMENT_ALIASES[name])) {
+    return SEGMENT_ALIASES[name] || name as RouteFileKind;
+  }
+
+  // Metadata files may be images or text files as well as code
+  return METADATA_FILES.test(fileName.replace(/\.[^.]+$/, '')) ? 'metadata' : undefined;
+}
+
+function readPagesFile(file: string, pageExtensions: string[]): RouteEntry | undefined {
+  const extension = pageExtensions.find(ext => file.endsWith(`.${ext}`));
+  if (!extension || file.endsWith('.d.ts')) {
+    return undefined;
+  }
+
+  const segments = file.slice(0, -extension.length - 1).split('/');
+  if (segments[segments.length - 1] === 'index') {
+    segments.pop();
+  }
+
+  const kind: RouteFileKind = PAGES_CUSTOM_FILES.includes(file.slice(0, -extension.length - 1))
+    ? 'custom'
+    : segments[0] === 'api' ? 'api' : 'page';
+
+  return { kind, pattern: toPattern(segments), groups: [] };
+}
+
+function toPattern(segments: string[]): string {
+  return `/${segments.join('/')}`;
+}
+
+/**
+ * Reads `export const dynamic/revalidate/runtime` from an App Router file, or
+ * `export const config = { runtime }` from a Pages Router file.
+ */
+async function readSegmentConfig(filePath: string, router: RouterKind): Promise<SegmentConfig> {
+  const j = jscodeshift.withParser('tsx');
+  const config: SegmentConfig = {};
+  let root;
+
+  try {
+    root = j(await fs.readFile(filePath, 'utf-8'));
+  } catch {
+    // Unparseable files still appear in the route map, just without config
+    return config;
+  }
+
+  root.find(j.ExportNamedDeclaration)
+    .find(j.VariableDeclarator)
+    .filter(path => path.parent.parent.value.type === 'ExportNamedDeclaration' && j.Identifier.check(path.value.id))
+    .forEach(path => {
+      const name = (path.value.id as any).name;
+
+      if (router === 'app' && SEGMENT_CONFIG_KEYS.includes(name)) {
+        config[name as keyof SegmentConfig] = formatValue(j, path.value.init);
+      } else if (name === 'config' && j.ObjectExpression.check(path.value.init)) {
+        const runtime = getProperty(j, path.value.init, 'runtime');
+        if (runtime) {
+          config.runtime = formatValue(j, runtime.value);
+        }
+      }
+    });
+
+  return config;
+}
+
+function formatValue(j: typeof jscodeshift, node: any): string {
+  if (node && (j.StringLiteral.check(node) || j.NumericLiteral.check(node) || j.BooleanLiteral.check(node) || j.Literal.check(node))) {
+    return String(node.value);
+  }
+  return node ? j(node).toSource() : 'undefined';
+}
+
+function mergeConfig(files: RouteFile[]): SegmentConfig {
+  // Reverse display order, so page/route settings override layout settings
+  return files.slice().reverse().reduce((config, file) => ({ ...config, ...file.config }), {} as SegmentConfig);
+}
+
+function kindOrder(kind: RouteFileKind): number {
+  const index = SEGMENT_FILES.indexOf(kind);
+  return index === -1 ? SEGMENT_FILES.length : index;
+}
@@ -0,0 +1,336 @@
+import fs from 'fs-extra';
+import path from 'path';
+import semver from 'semver';
+import { glob } from 'glob';
+
+export const MIN_NODE_VERSION = '20.9.0';
+
+export type NodePinKind = 'engines' | 'volta' | 'nvmrc' | 'node-version' | 'docker' | 'workflow';
+
+export interface NodeVersionPin {
+  kind: NodePinKind;
+  // Relative to the working directory
+  file: string;
+  // 1-based position of the version as written, without quotes
+  line: number;
+  column: number;
+  value: string;
+  supported: boolean;
+  // Line of the node-version key when the pin is one entry of a workflow matrix list
+  list?: number;
+}
+
+export interface NodeVersionBump {
+  pin: NodeVersionPin;
+  // New value, or undefined when the entry is dropped from a matrix list
+  replacement?: string;
+}
+
+// Release codenames used by nvm (lts/iron) and Docker tags (node:iron)
+const LTS_CODENAMES: Record<string, number> = {
+  argon: 4,
+  boron: 6,
+  carbon: 8,
+  dubnium: 10,
+  erbium: 12,
+  fermium: 14,
+  gallium: 16,
+  hydrogen: 18,
+  iron: 20,
+  jod: 22,
+  krypton: 24
+};
+const MIN_CODENAME = 'iron';
+
+const DOCKERFILES = ['Dockerfile', 'Dockerfile.*', '*.Dockerfile', '*.dockerfile'];
+const WORKFLOWS = '.github/workflows/*.{yml,yaml}';
+
+/**
+ * Finds the Node.js versions a project pins for development, CI and deployment: engines and
+ * volta in package.json, .nvmrc, .node-version, Dockerfile base images and GitHub workflows.
+ * Floating versions (lts/*, node:current, matrix expressions) are not reported.
+ */
+export async function findNodeVersionPins(cwd: string = process.cwd(), appRoot: string = ''): Promise<NodeVersionPin[]> {
+  const dirs = Array.from(new Set([appRoot, '']));
+  const pins: NodeVersionPin[] = [];
+
+  for (const dir of dirs) {
+    const manifest = path.join(dir, 'package.json');
+    if (await fs.pathExists(path.join(cwd, manifest))) {
+      pins.push(...findManifestPins(manifest, await fs.readFile(path.join(cwd, manifest), 'utf-8')));
+    }
+
+    for (const [name, kind] of [['.nvmrc', 'nvmrc'], ['.node-version', 'node-version']] as const) {
+      const file = path.join(dir, name);
+      if (await fs.pathExists(path.join(cwd, file))) {
+        const content = await fs.readFile(path.join(cwd, file), 'utf-8');
+        const lineIndex = content.split('\n').findIndex(line => line.trim() && !line.trim().startsWith('#'));
+        const line = content.split('\n')[lineIndex];
+        if (line) {
+          const value = line.trim();
+          pins.push(createPin(kind, file, lineIndex + 1, line.indexOf(value) + 1, value));
+        }
+      }
+    }
+
+    const dockerfiles = await glob(DOCKERFILES.map(pattern => (dir ? `${dir}/${pattern}` : pattern)), { cwd, nodir: true });
+    for (const file of dockerfiles.sort()) {
+      pins.push(...findDockerPins(file, await fs.readFile(path.join(cwd, file), 'utf-8')));
+    }
+  }
+
+  const workflows = await glob(WORKFLOWS, { cwd, nodir: true, dot: true });
+  for (const file of workflows.sort()) {
+    pins.push(...findWorkflowPins(file, await fs.readFile(path.join(cwd, file), 'utf-8')));
+  }
+
+  return pins.filter(pin => pin.supported !== undefined).map(pin => ({ ...pin, file: pin.file.split(path.sep).join('/') }));
+}
+
+/**
+ * Plans how to raise every unsupported pin to Node.js 20.9, keeping each pin's style
+ * (exact version, major only, lts/ alias, Docker tag variant).
+ */
+export function planNodeVersionBumps(pins: NodeVersionPin[]): NodeVersionBump[] {
+  const bumps: NodeVersionBump[] = [];
+  const unique = pins.filter((pin, index) =>
+    pins.findIndex(other => other.file === pin.file && other.line === pin.line && other.column === pin.column) === index
+  );
+
+  for (const pin of unique.filter(pin => !pin.supported)) {
+    if (pin.list === undefined) {
+      bumps.push({ pin, replacement: bumpValue(pin) });
+      continue;
+    }
+
+    // Matrix entries below the minimum are dropped rather than duplicated; if none of the
+    // list is supported, only the last entry is kept and bumped
+    const siblings = unique.filter(other => other.file === pin.file && other.list === pin.list);
+    const keep = !siblings.some(other => other.supported) && siblings[siblings.length - 1] === pin;
+    bumps.push({ pin, replacement: keep ? bumpValue(pin) : undefined });
+  }
+
+  return bumps;
+}
+
+/**
+ * Writes planned bumps and returns the files that changed.
+ */
+export async function applyNodeVersionBumps(bumps: NodeVersionBump[], cwd: string = process.cwd()): Promise<string[]> {
+  const files = Array.from(new Set(bumps.map(bump => bump.pin.file)));
+
+  for (const file of files) {
+    const filePath = path.join(cwd, file);
+    await fs.writeFile(filePath, bumpNodeVersions(await fs.readFile(filePath, 'utf-8'), bumps.filter(bump => bump.pin.file === file)));
+  }
+
+  return files;
+}
+
+/**
+ * Returns a file's content with the given bumps, all planned for that file, applied.
+ */
+export function bumpNodeVersions(content: string, bumps: NodeVersionBump[]): string {
+  const lines = content.split('\n');
+
+  // Edit from the end so earlier positions stay valid
+  const sorted = [...bumps].sort((a, b) => b.pin.line - a.pin.line || b.pin.column - a.pin.column);
+
+  for (const { pin, replacement } of sorted) {
+    const index = pin.line - 1;
+    const line = lines[index];
+    const start = locatePin(line, pin);
+    if (line === undefined || start === -1) {
+      continue;
+    }
+    const end = start + pin.value.length;
+
+    if (replacement !== undefined) {
+      lines[index] = line.slice(0, start) + replacement + line.slice(end);
+    } else if (/^\s*-\s*/.test(line) && line.trim().replace(/^-\s*/, '').replace(/['"]/g, '') === pin.value) {
+      // Block list item
+      lines.splice(index, 1);
+    } else {
+      // Inline list entry, together with its quotes and separator
+      const quoted = /['"]/.test(line[start - 1] || '') ? 1 : 0;
+      lines[index] = (line.slice(0, start - quoted) + line.slice(end + quoted))
+        .replace(/\[\s*,\s*/, '[')
+        .replace(/,\s*,/, ',')
+        .replace(/,\s*\]/, ']');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Finds a pin's value on its line: at the recorded column, or else at the nearest
+ * occurrence, since a transform may have rewritten other parts of the line (e.g. the
+ * scripts of a one-line package.json). Returns -1 when the value is gone.
+ */
+function locatePin(line: string | undefined, pin: NodeVersionPin): number {
+  if (line === undefined) {
+    return -1;
+  }
+  const column = pin.column - 1;
+  if (line.startsWith(pin.value, column)) {
+    return column;
+  }
+
+  let nearest = -1;
+  for (let index = line.indexOf(pin.value); index !== -1; index = line.indexOf(pin.value, index + 1)) {
+    if (nearest === -1 || Math.abs(index - column) < Math.abs(nearest - column)) {
+      nearest = index;
+    }
+  }
+  return nearest;
+}
+
+function findManifestPins(file: string, content: string): NodeVersionPin[] {
+  const pins: NodeVersionPin[] = [];
+
+  for (const [key, kind] of [['engines', 'engines'], ['volta', 'volta']] as const) {
+    const match = new RegExp(`"${key}"\\s*:\\s*\\{[^}]*?"node"\\s*:\\s*"([^"]*)"`).exec(content);
+    if (match) {
+      const offset = match.index + match[0].length - match[1].length - 1;
+      const { line, column } = positionAt(content, offset);
+      pins.push(createPin(kind, file, line, column, match[1]));
+    }
+  }
+
+  return pins;
+}
+
+function findDockerPins(file: string, content: string): NodeVersionPin[] {
+  const pins: NodeVersionPin[] = [];
+
+  content.split('\n').forEach((line, index) => {
+    // FROM [--platform=...] node:<version>[-variant] [AS name]
+    const match = line.match(/^(\s*FROM\s+(?:--\S+\s+)*(?:docker\.io\/)?(?:library\/)?node:)([\w.]+)/i);
+    if (match) {
+      pins.push(createPin('docker', file, index + 1, match[1].length + 1, match[2]));
+    }
+  });
+
+  return pins;
+}
+
+function findWorkflowPins(file: string, content: string): NodeVersionPin[] {
+  const pins: NodeVersionPin[] = [];
+  const lines = content.split('\n');
+
+  lines.forEach((line, index) => {
+    const image = line.match(/^(\s*(?:-\s*)?(?:container|image):\s*['"]?(?:docker:\/\/)?node:)([\w.]+)/);
+    if (image) {
+      pins.push(createPin('docker', file, index + 1, image[1].length + 1, image[2]));
+      return;
+    }
+
+    const key = line.match(/^(\s*(?:-\s*)?node(?:-version)?:\s*)(.*?)\s*(#.*)?$/);
+    if (!key || /\$\{\{/.test(key[2])) {
+      return;
+    }
+
+    const value = key[2];
+    if (value.startsWith('[')) {
+      // Inline matrix list: node-version: [18.x, 20.x]
+      const entries = /\[([^\]]*)\]/.exec(value);
+      let offset = key[1].length + 1;
+      (entries ? entries[1].split(',') : []).forEach(entry => {
+        const raw = entry.trim().replace(/^['"]|['"]$/g, '');
+        const column = line.indexOf(raw, offset) + 1;
+        offset = column + raw.length - 1;
+        if (raw) {
+          pins.push({ ...createPin('workflow', file, index + 1, column, raw), list: index + 1 });
+        }
+      });
+    } else if (value) {
+      const raw = value.replace(/^['"]|['"]$/g, '');
+      pins.push(createPin('workflow', file, index + 1, line.indexOf(raw, key[1].length) + 1, raw));
+    } else {
+      // Block matrix list on the following, more indented lines
+      const indent = line.length - line.trimStart().length;
+      for (let next = index + 1; next < lines.length; next++) {
+        const item = lines[next].match(/^(\s*-\s*['"]?)([\w.*/]+)['"]?\s*(#.*)?$/);
+        if (!item || item[1].length - item[1].trimStart().length <= indent) {
+          break;
+        }
+        pins.push({ ...createPin('workflow', file, next + 1, item[1].length + 1, item[2]), list: index + 1 });
+      }
+    }
+  });
+
+  return pins;
+}
+
+function createPin(kind: NodePinKind, file: string, line: number, column: number, value: string): NodeVersionPin {
+  return { kind, file, line, column, value, supported: isSupported(kind, value) };
+}
+
+/**
+ * Whether a pin guarantees Node.js 20.9+. Partial versions such as "20" float to the newest
+ * release of that line; undefined means the value floats or cannot be read.
+ */
+function isSupported(kind: NodePinKind, value: string): boolean | undefined {
+  if (kind === 'engines') {
+    const minimum = semver.validRange(value) ? semver.minVersion(value) : null;
+    return minimum ? semver.gte(minimum, MIN_NODE_VERSION) : undefined;
+  }
+
+  const version = parsePartialVersion(kind === 'docker' ? value.split('-')[0] : value);
+  if (!version) {
+    return undefined;
+  }
+
+  const minimum = MIN_NODE_VERSION.split('.').map(Number);
+  for (let index = 0; index < 3; index++) {
+    if (version[index] !== minimum[index]) {
+      return version[index] > minimum[index];
+    }
+  }
+  return true;
+}
+
+function parsePartialVersion(value: string): number[] | undefined {
+  const alias = value.trim().toLowerCase().replace(/^lts\//, '');
+  if (LTS_CODENAMES[alias]) {
+    return [LTS_CODENAMES[alias], Infinity, Infinity];
+  }
+
+  const match = alias.match(/^v?(\d+)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  return [match[1], match[2], match[3]].map(part => (part && /^\d+$/.test(part) ? parseInt(part, 10) : Infinity));
+}
+
+function bumpValue(pin: NodeVersionPin): string {
+  if (pin.kind === 'engines') {
+    return `>=${MIN_NODE_VERSION}`;
+  }
+  if (pin.kind === 'volta') {
+    return MIN_NODE_VERSION;
+  }
+
+  const [version, ...variant] = pin.kind === 'docker' ? pin.value.split('-') : [pin.value];
+  const suffix = variant.length > 0 ? `-${variant.join('-')}` : '';
+
+  const alias = version.toLowerCase().replace(/^lts\//, '');
+  if (LTS_CODENAMES[alias]) {
+    return `${version.slice(0, version.length - alias.length)}${MIN_CODENAME}${suffix}`;
+  }
+
+  // Keep the precision of the original pin: 18 -> 20, 18.x -> 20.x, v18.17.0 -> v20.9.0
+  const prefix = version.startsWith('v') ? 'v' : '';
+  const parts = version.replace(/^v/, '').split('.');
+  const target = MIN_NODE_VERSION.split('.');
+  const bumped = parts.map((part, index) => (/^\d+$/.test(part) ? target[index] : part));
+
+  return `${prefix}${bumped.join('.')}${suffix}`;
+}
+
+function positionAt(content: string, offset: number): { line: number; column: number } {
+  const before = content.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
@@ -0,0 +1,120 @@
+import fs from 'fs-extra';
+import path from 'path';
+import semver from 'semver';
+import { findManifestEntry, positionAt } from '../transformers/scripts';
+import { DependencyChecker } from './dependencies';
+
+// Packages upgraded together with Next.js
+export const UPGRADE_PACKAGES = ['next', 'react', 'react-dom', '@types/react', '@types/react-dom', 'eslint-config-next'];
+
+// Packages versioned in lockstep with next
+const NEXT_VERSIONED = ['next', 'eslint-config-next'];
+const DEPENDENCY_SECTIONS = ['dependencies', 'devDependencies'];
+
+export interface PackageUpgrade {
+  // Manifest path relative to the workspace root
+  file: string;
+  line: number;
+  section: string;
+  name: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * Returns the range each upgraded package should move to. Next.js follows `nextVersion`
+ * (a version, range or dist-tag) or the dataset's target; the rest come from the dataset.
+ */
+export function resolveUpgradeTargets(checker: DependencyChecker, nextVersion?: string): Record<string, string> {
+  const next = nextVersion ? (semver.valid(nextVersion) ? `^${nextVersion}` : nextVersion) : `^${checker.target}`;
+  const targets: Record<string, string> = {};
+
+  for (const name of UPGRADE_PACKAGES) {
+    const entry = checker.lookup(name);
+    if (NEXT_VERSIONED.includes(name)) {
+      targets[name] = next;
+    } else if (entry?.suggestedRange || entry?.minVersion) {
+      targets[name] = entry.suggestedRange || `^${entry.minVersion}`;
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Finds the app's dependencies that are below their target. Specifiers that are not semver
+ * ranges (workspace:, catalog:, URLs, tags) are left alone.
+ */
+export async function planPackageUpgrades(targets: Record<string, string>, cwd: string = process.cwd(), appRoot: string = ''): Promise<PackageUpgrade[]> {
+  const file = path.join(appRoot, 'package.json').split(path.sep).join('/');
+  const manifestPath = path.join(cwd, file);
+  if (!await fs.pathExists(manifestPath)) {
+    return [];
+  }
+
+  const content = await fs.readFile(manifestPath, 'utf-8');
+  let manifest: any;
+  try {
+    manifest = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to parse ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const upgrades: PackageUpgrade[] = [];
+
+  for (const section of DEPENDENCY_SECTIONS) {
+    for (const [name, from] of Object.entries<string>(manifest[section] || {})) {
+      const to = targets[name];
+      if (!to || !needsUpgrade(from, to)) {
+        continue;
+      }
+
+      const offset = findManifestEntry(content, section, name, from);
+      if (offset !== -1) {
+        upgrades.push({ file, line: positionAt(content, offset).line, section, name, from, to });
+      }
+    }
+  }
+
+  return upgrades;
+}
+
+/**
+ * Rewrites the planned ranges in place, keeping the manifests' formatting. Returns the
+ * changed files.
+ */
+export async function applyPackageUpgrades(upgrades: PackageUpgrade[], cwd: string = process.cwd()): Promise<string[]> {
+  const files = Array.from(new Set(upgrades.map(upgrade => upgrade.file)));
+
+  for (const file of files) {
+    const filePath = path.join(cwd, file);
+    await fs.writeFile(filePath, upgradeManifest(await fs.readFile(filePath, 'utf-8'), upgrades.filter(upgrade => upgrade.file === file)));
+  }
+
+  return files;
+}
+
+/**
+ * Returns a manifest's content with the given upgrades applied.
+ */
+export function upgradeManifest(content: string, upgrades: PackageUpgrade[]): string {
+  for (const { section, name, from, to } of upgrades) {
+    const offset = findManifestEntry(content, section, name, from);
+    if (offset !== -1) {
+      content = content.slice(0, offset) + JSON.stringify(to) + content.slice(offset + JSON.stringify(from).length);
+    }
+  }
+  return content;
+}
+
+function needsUpgrade(from: string, to: string): boolean {
+  if (!semver.validRange(from)) {
+    return false;
+  }
+
+  const current = semver.minVersion(from);
+  const target = semver.validRange(to) ? semver.minVersion(to) : null;
+
+  // A dist-tag target such as "canary" always replaces a semver range
+  return !target || (!!current && semver.lt(current, target));
+}
@@ -0,0 +1,211 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { glob } from 'glob';
+import { readPageExtensions } from '../transformers/next-config';
+
+export const DEFAULT_PAGE_EXTENSIONS = ['tsx', 'ts', 'jsx', 'js'];
+
+export interface NextApp {
+  // Package name, or the directory name when the package has none
+  name: string;
+  // Directory of the app relative to the workspace root ('' for the root itself)
+  root: string;
+  pageExtensions: string[];
+  // Internal workspace packages the app depends on, relative to the workspace root
+  packages: string[];
+}
+
+interface WorkspacePackage {
+  name: string;
+  root: string;
+  manifest: any;
+}
+
+const NEXT_CONFIG_FILES = ['next.config.js', 'next.config.mjs', 'next.config.cjs', 'next.config.ts', 'next.config.mts'];
+
+/**
+ * Finds every Next.js app in the project. Monorepos are read from npm/yarn `workspaces`,
+ * `pnpm-workspace.yaml`, or the apps/ and packages/ folders of a Turborepo. A project that is not
+ * a monorepo is a single app rooted at the working directory.
+ */
+export async function discoverApps(cwd: string = process.cwd()): Promise<NextApp[]> {
+  const manifest = await readManifest(cwd);
+  const patterns = await getWorkspacePatterns(cwd, manifest);
+
+  if (patterns.length === 0) {
+    return [await loadApp(cwd)];
+  }
+
+  const packages = await findWorkspacePackages(cwd, patterns);
+  const candidates = [{ name: manifest?.name || path.basename(cwd), root: '', manifest }, ...packages];
+  const apps: NextApp[] = [];
+
+  for (const candidate of candidates) {
+    if (await isNextApp(cwd, candidate)) {
+      apps.push(await createApp(cwd, candidate, packages));
+    }
+  }
+
+  // Fall back to the root so analysis still explains why nothing was found
+  return apps.length > 0 ? apps : [await loadApp(cwd)];
+}
+
+/**
+ * Reads the app rooted at a directory (relative to the working directory).
+ */
+export async function loadApp(cwd: string = process.cwd(), root: string = ''): Promise<NextApp> {
+  const manifest = await readManifest(path.join(cwd, root));
+  return createApp(cwd, { name: manifest?.name || path.basename(path.join(cwd, root)), root, manifest }, []);
+}
+
+/**
+ * Returns the apps matching a name or directory, or all apps when no filter is given.
+ */
+export function selectApps(apps: NextApp[], filter?: string): NextApp[] {
+  if (!filter) {
+    return apps;
+  }
+
+  const normalized = filter.replace(/\\/g, '/').replace(/^\.\/|\/$/g, '');
+  const selected = apps.filter(app => app.name === filter || app.root === normalized);
+
+  if (selected.length === 0) {
+    throw new Error(`No Next.js app named "${filter}". Found: ${apps.map(app => app.name).join(', ')}`);
+  }
+
+  return selected;
+}
+
+async function getWorkspacePatterns(cwd: string, manifest: any): Promise<string[]> {
+  const workspaces = manifest?.workspaces;
+  if (Array.isArray(workspaces)) {
+    return workspaces;
+  }
+  if (Array.isArray(workspaces?.packages)) {
+    return workspaces.packages;
+  }
+
+  const pnpmWorkspace = path.join(cwd, 'pnpm-workspace.yaml');
+  if (await fs.pathExists(pnpmWorkspace)) {
+    return parsePnpmPackages(await fs.readFile(pnpmWorkspace, 'utf-8'));
+  }
+
+  // Turborepo's default layout when the package manager config is missing
+  if (await fs.pathExists(path.join(cwd, 'turbo.json'))) {
+    return ['apps/*', 'packages/*'];
+  }
+
+  return [];
+}
+
+function parsePnpmPackages(content: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const line of content.split('\n')) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (inPackages && /^\S/.test(line)) {
+      break;
+    }
+
+    const item = line.match(/^\s*-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/);
+    if (inPackages && item) {
+      patterns.push(item[1]);
+    }
+  }
+
+  return patterns;
+}
+
+async function findWorkspacePackages(cwd: string, patterns: string[]): Promise<WorkspacePackage[]> {
+  const include = patterns.filter(pattern => !pattern.startsWith('!'));
+  const exclude = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => `${pattern.slice(1)}/package.json`);
+
+  const manifests = await glob(include.map(pattern => `${pattern.replace(/\/$/, '')}/package.json`), {
+    cwd,
+    ignore: ['**/node_modules/**', ...exclude]
+  });
+
+  const packages: WorkspacePackage[] = [];
+
+  for (const manifestPath of manifests.sort()) {
+    const root = path.dirname(manifestPath).split(path.sep).join('/');
+    const manifest = await readManifest(path.join(cwd, root));
+    packages.push({ name: manifest?.name || path.basename(root), root, manifest });
+  }
+
+  return packages;
+}
+
+async function isNextApp(cwd: string, candidate: WorkspacePackage): Promise<boolean> {
+  const dependencies = { ...candidate.manifest?.dependencies, ...candidate.manifest?.devDependencies };
+  if (!dependencies.next) {
+    return false;
+  }
+
+  const dir = path.join(cwd, candidate.root);
+  const markers = [...NEXT_CONFIG_FILES, 'app', 'pages', path.join('src', 'app'), path.join('src', 'pages')];
+
+  for (const marker of markers) {
+    if (await fs.pathExists(path.join(dir, marker))) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+async function createApp(cwd: string, app: WorkspacePackage, packages: WorkspacePackage[]): Promise<NextApp> {
+  return {
+    name: app.name,
+    root: app.root,
+    pageExtensions: await readAppPageExtensions(path.join(cwd, app.root)),
+    packages: findInternalDependencies(app, packages)
+  };
+}
+
+async function readAppPageExtensions(dir: string): Promise<string[]> {
+  for (const name of NEXT_CONFIG_FILES) {
+    const configPath = path.join(dir, name);
+    if (await fs.pathExists(configPath)) {
+      return readPageExtensions(await fs.readFile(configPath, 'utf-8')) || DEFAULT_PAGE_EXTENSIONS;
+    }
+  }
+
+  return DEFAULT_PAGE_EXTENSIONS;
+}
+
+/**
+ * Collects the workspace packages an app depends on, directly or through other internal packages.
+ */
+function findInternalDependencies(app: WorkspacePackage, packages: WorkspacePackage[]): string[] {
+  const byName = new Map(packages.map(pkg => [pkg.name, pkg]));
+  const found = new Set<string>();
+  const queue = [app];
+
+  while (queue.length > 0) {
+    const current = queue.shift();
+    const dependencies = { ...current.manifest?.dependencies, ...current.manifest?.devDependencies };
+
+    for (const name of Object.keys(dependencies)) {
+      const pkg = byName.get(name);
+      if (pkg && pkg.root !== app.root && !found.has(pkg.root)) {
+        found.add(pkg.root);
+        queue.push(pkg);
+      }
+    }
+  }
+
+  return Array.from(found).sort();
+}
+
+async function readManifest(dir: string): Promise<any> {
+  try {
+    return await fs.readJson(path.join(dir, 'package.json'));
+  } catch {
+    return undefined;
+  }
+}
@@ -1,43 +1,52 @@
 import chalk from 'chalk';
 import ora from 'ora';
-import { ProjectAnalyzer } from '../../analyzers/compatibility';
+import { ProjectAnalysis, ProjectAnalyzer } from '../../analyzers/compatibility';
+import { discoverApps, selectApps } from '../../analyzers/workspace';
 import { PerformanceAnalyzer } from '../../analyzers/performance';
+import { buildRouteMap, Route } from '../../analyzers/routes';
+import { Effort, EffortBreakdown, formatMinutes } from '../../analyzers/effort';
+import { TransformationRegistry } from '../../transformers/registry';
+import { WorkerPool } from '../../transformers/pool';
 
 export interface AnalyzeOptions {
   performance?: boolean;
   detailed?: boolean;
+  jobs?: string;
+  timeout?: string;
+  cache?: boolean;
+  app?: string;
+  routes?: boolean;
 }
 
 export async function analyzeCommand(options: AnalyzeOptions): Promise<void> {
   const spinner = ora('Analyzing project...').start();
+  const pool = new WorkerPool({ jobs: Number(options.jobs) || undefined, timeout: Number(options.timeout) || undefined });
   
   try {
     // Project compatibility analysis
     spinner.text = 'Checking Next.js 16 compatibility...';
-    const analyzer = new ProjectAnalyzer();
-    const analysis = await analyzer.analyze();
+    const registry = await TransformationRegistry.load();
+    const apps = selectApps(await discoverApps(), options.app);
+    const analyses: ProjectAnalysis[] = [];
+    
+    for (const app of apps) {
+      const analyzer = new ProjectAnalyzer(registry, { pool, cache: options.cache !== false, app });
+      analyses.push(await analyzer.analyze());
+    }
     
     spinner.succeed(chalk.green('Analysis completed!'));
     
-    // Display compatibility results
-    console.log(chalk.blue('\n🔍 Compatibility Analysis:'));
+    if (apps.length > 1) {
+      console.log(chalk.blue(`\n📦 Found ${apps.length} Next.js apps: ${apps.map(app => app.name).join(', ')}`));
+    }
     
-    if (analysis.isCompatible) {
-      console.log(chalk.green('✅ Project is compatible with Next.js 16'));
-    } else {
-      console.log(chalk.red('❌ Project has compatibility issues'));
-      console.log(chalk.yellow('\nIssues found:'));
-      analysis.issues.forEach(issue => {
-        console.log(chalk.red(`• ${issue}`));
-      });
+    for (const analysis of analyses) {
+      printAnalysis(analysis, options, apps.length > 1);
+      if (options.routes) {
+        printRoutes(await buildRouteMap(analysis.app, analysis.filesToTransform));
+      }
     }
-
-    // Show files that will be transformed
-    console.log(chalk.blue('\n📁 Files to be transformed:'));
-    analysis.filesToTransform.forEach(file => {
-      console.log(chalk.gray(`• ${file.path} (${file.type})`));
-    });
-
+    
     // Performance analysis (if requested)
     if (options.performance) {
       spinner.start('Running performance analysis...');
@@ -62,24 +71,8 @@ export async function analyzeCommand(options: AnalyzeOptions): Promise<void> {
       }
     }
 
-    // Detailed analysis (if requested)
-    if (options.detailed) {
-      console.log(chalk.blue('\n📋 Detailed Analysis:'));
-      console.log(chalk.gray(`• Next.js version: ${analysis.currentVersion}`));
-      console.log(chalk.gray(`• Target version: 16.0.0`));
-      console.log(chalk.gray(`• Migration complexity: ${analysis.complexity}`));
-      console.log(chalk.gray(`• Estimated migration time: ${analysis.estimatedTime}`));
-      
-      if (analysis.recommendations.length > 0) {
-        console.log(chalk.yellow('\n💡 Recommendations:'));
-        analysis.recommendations.forEach(rec => {
-          console.log(chalk.gray(`• ${rec}`));
-        });
-      }
-    }
-
     // Next steps
-    if (analysis.isCompatible) {
+    if (analyses.every(analysis => analysis.isCompatible)) {
       console.log(chalk.blue('\n🚀 Ready to migrate!'));
       console.log(chalk.gray('Run "nextjs16-migrator migrate" to start the migration.'));
     } else {
@@ -90,5 +83,138 @@ export async function analyzeCommand(options: AnalyzeOptions): Promise<void> {
   } catch (error) {
     spinner.fail(chalk.red('Analysis failed'));
     throw error;
+  } finally {
+    await pool.close();
+  }
+}
+
+function printAnalysis(analysis: ProjectAnalysis, options: AnalyzeOptions, showApp: boolean): void {
+  if (showApp) {
+    console.log(chalk.bold(`\n━━ ${analysis.app.name} (${analysis.app.root || '.'}) ━━`));
   }
+  
+  // Display compatibility results
+  console.log(chalk.blue('\n🔍 Compatibility Analysis:'));
+  
+  if (analysis.isCompatible) {
+    console.log(chalk.green('✅ Project is compatible with Next.js 16'));
+    if (analysis.issues.length > 0) {
+      console.log(chalk.yellow('\nWarnings:'));
+      analysis.issues.forEach(issue => {
+        console.log(chalk.yellow(`• ${issue}`));
+      });
+    }
+  } else {
+    console.log(chalk.red('❌ Project has compatibility issues'));
+    console.log(chalk.yellow('\nIssues found:'));
+    analysis.issues.forEach(issue => {
+      console.log(chalk.red(`• ${issue}`));
+    });
+  }
+
+  if (analysis.dependencyIssues.length > 0) {
+    console.log(chalk.blue('\n📦 Dependency Compatibility:'));
+    analysis.dependencyIssues.forEach(issue => {
+      const color = issue.kind === 'replaceable' ? chalk.gray : chalk.yellow;
+      console.log(color(`• ${issue.message}`));
+      issue.breaking.forEach(change => console.log(chalk.gray(`  - ${change}`)));
+    });
+  }
+
+  // Show files that will be transformed
+  console.log(chalk.blue('\n📁 Files to be transformed:'));
+  analysis.filesToTransform.forEach(file => {
+    console.log(chalk.gray(`• ${file.path} (${file.type})`));
+    file.findings.forEach(finding => {
+      const color = finding.severity === 'error' ? chalk.red : finding.severity === 'warning' ? chalk.yellow : chalk.gray;
+      const fix = finding.fixable ? '' : chalk.yellow(' (manual)');
+      console.log(`  ${chalk.gray(`${finding.line}:${finding.column}`)} ${color(finding.severity)} ${finding.message} ${chalk.gray(`[${finding.ruleId}]`)}${fix}`);
+    });
+  });
+
+  // Detailed analysis (if requested)
+  if (options.detailed) {
+    console.log(chalk.blue('\n📋 Detailed Analysis:'));
+    console.log(chalk.gray(`• Next.js version: ${analysis.currentVersion}`));
+    Object.entries(analysis.installedVersions).forEach(([name, installed]) => {
+      console.log(chalk.gray(`  - ${name}@${installed.version} (from ${installed.source})`));
+    });
+    console.log(chalk.gray(`• Target version: 16.0.0`));
+    analysis.nodeVersionPins.forEach(pin => {
+      const status = pin.supported ? chalk.green('✓') : chalk.red('✗');
+      console.log(chalk.gray(`• Node.js ${pin.value} in ${pin.file}:${pin.line} (${pin.kind}) `) + status);
+    });
+    console.log(chalk.gray(`• Migration complexity: ${analysis.complexity}`));
+    console.log(chalk.gray(`• Estimated migration time: ${analysis.estimatedTime}`));
+    
+    if (analysis.effort && analysis.effort.total.items > 0) {
+      printEffort(analysis.effort);
+    }
+    
+    if (analysis.recommendations.length > 0) {
+      console.log(chalk.yellow('\n💡 Recommendations:'));
+      analysis.recommendations.forEach(rec => {
+        console.log(chalk.gray(`• ${rec}`));
+      });
+    }
+  }
+}
+
+function printRoutes(routes: Route[]): void {
+  const outstanding = routes.filter(route => route.findings.length > 0);
+  
+  console.log(chalk.blue(`\n🗺️  Routes (${outstanding.length} of ${routes.length} with outstanding findings):`));
+  if (routes.length === 0) {
+    console.log(chalk.gray('• No app/ or pages/ directory found'));
+    return;
+  }
+  
+  routes.forEach(route => {
+    const details = [
+      route.router === 'app' ? 'App Router' : 'Pages Router',
+      route.slot && `@${route.slot}`,
+      route.interceptedFrom && `intercepted from ${route.interceptedFrom}`,
+      ...route.groups.map(group => `(${group})`)
+    ].filter(Boolean).join(', ');
+    const config = Object.entries(route.config).map(([key, value]) => `${key}=${value}`).join(' ');
+    const manual = route.findings.filter(finding => !finding.fixable).length;
+    const status = route.findings.length === 0
+      ? chalk.green('✓ up to date')
+      : chalk.yellow(`${route.findings.length} finding${route.findings.length === 1 ? '' : 's'}${manual > 0 ? ` (${manual} manual)` : ''}`);
+    
+    console.log(`${chalk.bold(route.pattern)} ${chalk.gray(`[${details}]`)} ${status}`);
+    console.log(chalk.gray(`  ${Array.from(new Set(route.files.map(file => file.kind))).join(', ')}${config ? ` · ${config}` : ''}`));
+    route.files.forEach(file => {
+      file.findings.forEach(finding => {
+        console.log(chalk.gray(`  ${file.path}:${finding.line}:${finding.column} ${finding.message} [${finding.ruleId}]`));
+      });
+    });
+  });
+}
+
+/**
+ * Prints the effort estimate as Markdown tables, ready to paste into a planning doc.
+ */
+function printEffort(effort: EffortBreakdown): void {
+  console.log(chalk.blue('\n⏱️  Effort Breakdown:'));
+  
+  const sections: [string, string, Record<string, Effort>][] = [
+    ['By team (CODEOWNERS)', 'Team', effort.byOwner],
+    ['By route', 'Route', effort.byRoute],
+    ['By rule', 'Rule', effort.byRule]
+  ];
+  
+  sections.forEach(([title, column, efforts]) => {
+    console.log(`\n#### ${title}\n`);
+    console.log(`| ${column} | Items | Automated (review) | Manual | Total |`);
+    console.log('|---|---:|---:|---:|---:|');
+    Object.entries(efforts)
+      .sort(([a, x], [b, y]) => (y.automated + y.manual) - (x.automated + x.manual) || a.localeCompare(b))
+      .forEach(([name, value]) => console.log(formatEffortRow(name, value)));
+    console.log(formatEffortRow('**Total**', effort.total));
+  });
+}
+
+function formatEffortRow(name: string, effort: Effort): string {
+  return `| ${name} | ${effort.items} | ${formatMinutes(effort.automated)} | ${formatMinutes(effort.manual)} | ${formatMinutes(effort.automated + effort.manual)} |`;
 }
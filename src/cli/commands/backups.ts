@@ -0,0 +1,158 @@
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { Backup, BackupManager } from '../../utils/backup';
+import { printPatch } from './migrate';
+
+export interface BackupsDiffOptions {
+  // Only list the changed files
+  stat?: boolean;
+}
+
+export interface BackupsPruneOptions {
+  keep?: string;
+  olderThan?: string;
+  yes?: boolean;
+}
+
+const DURATION_UNITS: Record<string, number> = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000, w: 7 * 24 * 60 * 60 * 1000 };
+
+export async function backupsListCommand(): Promise<void> {
+  const backupManager = new BackupManager();
+  const backups = await backupManager.listBackups();
+
+  if (backups.length === 0) {
+    console.log(chalk.yellow('No migration backups found.'));
+    return;
+  }
+
+  console.log(chalk.blue(`\n📋 Backups (${backups.length}):`));
+  backups.forEach(backup => {
+    console.log(`${chalk.bold(backup.id)} ${chalk.gray(backup.timestamp)} ${backup.description}`);
+    console.log(chalk.gray(`  ${describeContents(backup, backupManager)}`));
+  });
+}
+
+export async function backupsShowCommand(backupId: string): Promise<void> {
+  const backupManager = new BackupManager();
+  const backup = await backupManager.getBackup(backupId);
+  const manifest = await backupManager.readManifest(backup);
+
+  console.log(chalk.blue(`\n📦 ${backup.id}`));
+  console.log(chalk.gray(`Created:     ${backup.timestamp}`));
+  console.log(chalk.gray(`Description: ${backup.description}`));
+  console.log(chalk.gray(`Git:         ${backup.gitRef ? `${backup.gitRef} (${backup.gitCommit.slice(0, 7)})` : 'none'}`));
+  console.log(chalk.gray(`Contents:    ${describeContents(backup, backupManager)}`));
+
+  if (manifest) {
+    console.log(chalk.blue(`\nSnapshot (${manifest.files.length} files):`));
+    manifest.files.forEach(entry => {
+      console.log(chalk.gray(`• ${entry.path} ${entry.sha256 ? `(${entry.size} bytes, ${entry.sha256.slice(0, 12)})` : '(did not exist)'}`));
+    });
+  }
+
+  const changed = backupManager.changedFiles(backup);
+  if (changed.length > 0) {
+    console.log(chalk.blue(`\nMigrated files (${changed.length}):`));
+    changed.forEach(file => {
+      const status = file.status === 'modified' ? '' : ` [${file.status}]`;
+      const transformations = file.transformations.length > 0 ? ` ${file.transformations.join(', ')}` : '';
+      console.log(chalk.gray(`• ${file.file}${status}${transformations}`));
+    });
+  }
+}
+
+export async function backupsDiffCommand(backupId: string, options: BackupsDiffOptions): Promise<void> {
+  const backupManager = new BackupManager();
+  const diffs = (await backupManager.diffBackup(backupId)).filter(diff => diff.status !== 'unchanged');
+
+  if (diffs.length === 0) {
+    console.log(chalk.green(`✓ The working tree matches backup ${backupId}`));
+    return;
+  }
+
+  console.log(chalk.blue(`\n📋 Changed since backup ${backupId} (${diffs.length} files):`));
+  diffs.forEach(diff => {
+    console.log(chalk.bold(`\n${diff.file}`) + chalk.gray(` (${diff.status})`));
+    if (!options.stat && diff.patch) {
+      printPatch(diff.patch);
+    }
+  });
+}
+
+export async function backupsPruneCommand(options: BackupsPruneOptions): Promise<void> {
+  if (options.keep === undefined && options.olderThan === undefined) {
+    throw new Error('Pass --keep <n>, --older-than <duration>, or both');
+  }
+
+  const keep = options.keep === undefined ? undefined : Number(options.keep);
+  if (keep !== undefined && (!Number.isInteger(keep) || keep < 0)) {
+    throw new Error(`Invalid --keep "${options.keep}"; expected a whole number`);
+  }
+  const olderThan = options.olderThan === undefined ? undefined : parseDuration(options.olderThan);
+
+  const backupManager = new BackupManager();
+  const candidates = await backupManager.prune({ keep, olderThan, dryRun: true });
+
+  if (candidates.length === 0) {
+    console.log(chalk.green('✓ No backups to prune.'));
+  } else {
+    console.log(chalk.blue(`\n🗑 Backups to delete (${candidates.length}):`));
+    candidates.forEach(backup => console.log(chalk.gray(`• ${backup.id} - ${backup.timestamp}`)));
+
+    if (!options.yes) {
+      const confirm = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'proceed',
+          message: `Delete ${candidates.length} backups? They cannot be restored afterwards.`,
+          default: false
+        }
+      ]);
+
+      if (!confirm.proceed) {
+        console.log(chalk.yellow('Prune cancelled.'));
+        return;
+      }
+    }
+  }
+
+  // Also runs with nothing to delete, to sweep directories and refs left by earlier versions
+  const pruned = await backupManager.prune({ keep, olderThan });
+  if (pruned.length > 0) {
+    console.log(chalk.green(`✓ Deleted ${pruned.length} backups`));
+  }
+}
+
+export async function backupsExportCommand(backupId: string, outFile: string): Promise<void> {
+  await new BackupManager().exportBackup(backupId, outFile);
+  console.log(chalk.green(`✓ Exported ${backupId} to ${outFile}`));
+}
+
+export async function backupsImportCommand(archive: string): Promise<void> {
+  const backup = await new BackupManager().importBackup(archive);
+  console.log(chalk.green(`✓ Imported ${backup.id} (${backup.fileCount} files)`));
+  if (!backup.gitRef) {
+    console.log(chalk.gray('  Its git snapshot is not in this repository, so rollback uses the file snapshot only.'));
+  }
+}
+
+function describeContents(backup: Backup, backupManager: BackupManager): string {
+  const parts = [
+    backup.fileCount !== undefined ? `${backup.fileCount} files in snapshot` : 'no file snapshot',
+    backup.gitRef ? 'git snapshot' : 'no git snapshot'
+  ];
+  const changed = backupManager.changedFiles(backup);
+  parts.push(backup.changes ? `${changed.length} files migrated` : 'migration not recorded');
+  return parts.join(', ');
+}
+
+/**
+ * Parses durations such as `30d`, `12h`, `2w` or `90m`.
+ */
+function parseDuration(value: string): number {
+  const match = /^(\d+)([mhdw])$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration "${value}"; expected e.g. 30d, 12h, 2w or 90m`);
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2]];
+}
@@ -1,11 +1,26 @@
 import chalk from 'chalk';
-import ora from 'ora';
+import { applyPatch } from 'diff';
+import ora, { Ora } from 'ora';
 import inquirer from 'inquirer';
+import fs from 'fs-extra';
+import path from 'path';
 import { BackupManager } from '../../utils/backup';
-import { ProjectAnalyzer } from '../../analyzers/compatibility';
-import { MigrationEngine } from '../../transformers/engine';
+import { MigrationJournal } from '../../utils/journal';
+import { ProjectAnalysis, ProjectAnalyzer } from '../../analyzers/compatibility';
+import { discoverApps, selectApps } from '../../analyzers/workspace';
+import { applyNodeVersionBumps, bumpNodeVersions, MIN_NODE_VERSION, NodeVersionBump, planNodeVersionBumps } from '../../analyzers/runtime';
+import { DependencyChecker } from '../../analyzers/dependencies';
+import { mergeEffort } from '../../analyzers/effort';
+import { applyPackageUpgrades, PackageUpgrade, planPackageUpgrades, resolveUpgradeTargets, upgradeManifest } from '../../analyzers/upgrade';
+import { createFilePatch, FileDiff, MigrationEngine, MigrationResult } from '../../transformers/engine';
+import { TransformationRegistry } from '../../transformers/registry';
+import { WorkerPool } from '../../transformers/pool';
+import { TypeChecker } from '../../transformers/validation';
+import { SLOT_DEFAULT_KINDS, SlotDefaultKind } from '../../transformers/slots';
+import { findPrettierConfigProblems, loadPrettier } from '../../transformers/formatting';
 import { PerformanceAnalyzer } from '../../analyzers/performance';
 import { ReportGenerator } from '../../utils/reporting';
+import { detectPackageManager, getLockfile, installDependencies, PackageManager } from '../../utils/package-manager';
 
 export interface MigrateOptions {
   dryRun?: boolean;
@@ -13,43 +28,125 @@ export interface MigrateOptions {
   backup?: boolean;
   performance?: boolean;
   batch?: boolean;
+  diffOutput?: string;
+  typecheck?: boolean;
+  format?: boolean;
+  jobs?: string;
+  timeout?: string;
+  cache?: boolean;
+  app?: string;
+  bumpNode?: boolean;
+  nextVersion?: string;
+  install?: boolean;
+  slotDefault?: string;
+  resume?: boolean;
+  abort?: boolean;
+  atomic?: boolean;
 }
 
 export async function migrateCommand(options: MigrateOptions): Promise<void> {
   const spinner = ora('Initializing migration...').start();
+  // Workers start lazily, so creating the pool up front costs nothing
+  const pool = new WorkerPool({ jobs: Number(options.jobs) || undefined, timeout: Number(options.timeout) || undefined });
+  let journal: MigrationJournal | undefined;
   
   try {
+    // A run that was interrupted has to be finished or undone before another one starts
+    const interrupted = await MigrationJournal.load();
+    if (options.abort) {
+      await abortInterrupted(interrupted, spinner);
+      return;
+    }
+    if (options.resume) {
+      if (!interrupted) {
+        throw new Error('There is no interrupted migration to resume');
+      }
+      spinner.text = 'Repairing files the interrupted run was writing...';
+      await interrupted.repair();
+      // Run again with the interrupted run's options; finished files are no-ops the second time
+      options = { ...interrupted.started.options, yes: options.yes, batch: options.batch, resume: true };
+    } else if (interrupted && !options.dryRun) {
+      throw new Error('A previous migration was interrupted. Run "migrate --resume" to finish it or "migrate --abort" to undo it.');
+    }
+    
+    if (options.slotDefault && !SLOT_DEFAULT_KINDS.includes(options.slotDefault as SlotDefaultKind)) {
+      throw new Error(`Invalid --slot-default "${options.slotDefault}"; expected one of: ${SLOT_DEFAULT_KINDS.join(', ')}`);
+    }
+    const slotDefault = options.slotDefault as SlotDefaultKind;
+    
     // Step 1: Project Analysis
+    spinner.text = 'Loading transformations...';
+    const registry = await TransformationRegistry.load();
+    
+    spinner.text = 'Discovering Next.js apps...';
+    const apps = selectApps(await discoverApps(), options.app);
+    
     spinner.text = 'Analyzing project structure...';
-    const analyzer = new ProjectAnalyzer();
-    const analysis = await analyzer.analyze();
+    const analyzers = apps.map(app => new ProjectAnalyzer(registry, { pool, cache: options.cache !== false, readOnlyCache: options.dryRun, app }));
+    const analyses: ProjectAnalysis[] = [];
+    for (const analyzer of analyzers) {
+      analyses.push(await analyzer.analyze());
+    }
     
-    if (!analysis.isCompatible) {
+    const incompatible = analyses.filter(analysis => !analysis.isCompatible);
+    if (incompatible.length > 0) {
       spinner.fail(chalk.red('Project is not compatible with Next.js 16'));
       console.log(chalk.yellow('Issues found:'));
-      analysis.issues.forEach((issue: string) => {
-        console.log(chalk.red(`• ${issue}`));
+      incompatible.forEach(analysis => {
+        const prefix = apps.length > 1 ? `[${analysis.app.name}] ` : '';
+        analysis.issues.forEach((issue: string) => {
+          console.log(chalk.red(`• ${prefix}${issue}`));
+        });
       });
       return;
     }
+    
+    const fileCount = analyses.reduce((total, analysis) => total + analysis.filesToTransform.length, 0);
+
+    spinner.text = 'Planning package upgrades...';
+    const upgrades: PackageUpgrade[] = [];
+    for (const app of apps) {
+      const checker = await DependencyChecker.load([process.cwd(), path.join(process.cwd(), app.root)]);
+      upgrades.push(...await planPackageUpgrades(resolveUpgradeTargets(checker, options.nextVersion), process.cwd(), app.root));
+    }
+    const packageManagers = await detectPackageManagers(apps.map(app => app.root));
 
-    // Step 2: Backup Creation
-    if (options.backup !== false) {
+    const migrationEngine = new MigrationEngine(registry);
+
+    // Step 2: Backup Creation (a dry-run never touches the project)
+    const backupManager = new BackupManager();
+    let backupId: string | undefined = options.resume ? interrupted.started.backupId : undefined;
+    if (options.backup !== false && !options.dryRun && !options.resume) {
       spinner.text = 'Creating backup...';
-      const backupManager = new BackupManager();
-      const backupId = await backupManager.createBackup();
+      // Snapshot exactly what the migration will write: sources, manifests, lockfiles and version pins
+      const plannedFiles: string[] = [];
+      for (const app of apps) {
+        plannedFiles.push(...await migrationEngine.plannedPaths({ pool, cache: options.cache !== false, app, slotDefault }));
+      }
+      plannedFiles.push(...upgrades.map(upgrade => upgrade.file));
+      if (upgrades.length > 0 && options.install !== false) {
+        plannedFiles.push(...packageManagers.map(packageManager => path.relative(process.cwd(), path.join(packageManager.dir, getLockfile(packageManager)))));
+      }
+      if (options.bumpNode) {
+        plannedFiles.push(...planNodeVersionBumps(analyses.flatMap(analysis => analysis.nodeVersionPins)).map(bump => bump.pin.file));
+      }
+      backupId = await backupManager.createBackup(plannedFiles);
       console.log(chalk.green(`✓ Backup created: ${backupId}`));
+      const backup = await backupManager.getBackup(backupId);
+      if (backup.gitRef) {
+        console.log(chalk.gray(`  Git snapshot: ${backup.gitRef} (${backup.gitCommit.slice(0, 7)})`));
+      }
     }
 
     // Step 3: Confirmation (unless batch mode or --yes)
-    if (!options.batch && !options.yes) {
+    if (!options.batch && !options.yes && !options.dryRun) {
       spinner.stop();
       
       const confirm = await inquirer.prompt([
         {
           type: 'confirm',
           name: 'proceed',
-          message: `Ready to migrate ${analysis.filesToTransform.length} files?`,
+          message: `Ready to migrate ${fileCount} files${apps.length > 1 ? ` across ${apps.length} apps` : ''}?`,
           default: true
         }
       ]);
@@ -70,31 +167,191 @@ export async function migrateCommand(options: MigrateOptions): Promise<void> {
       performanceBaseline = await perfAnalyzer.analyze();
     }
 
+    if (options.format && !loadPrettier()) {
+      console.log(chalk.yellow('\n⚠ Skipping formatting: no local Prettier install found'));
+    }
+    (await findPrettierConfigProblems()).forEach(problem => {
+      console.log(chalk.yellow(`\n⚠ Cannot read Prettier config ${problem}; .editorconfig settings apply instead`));
+    });
+
     // Step 5: Migration Execution
     spinner.text = 'Executing transformations...';
-    const migrationEngine = new MigrationEngine();
     
     if (options.dryRun) {
       spinner.text = 'Generating dry-run report...';
-      const changes = await migrationEngine.previewChanges();
+      const diffs: FileDiff[] = [];
+      for (const app of apps) {
+        diffs.push(...await migrationEngine.previewChanges({ pool, cache: options.cache !== false, readOnlyCache: true, format: options.format, app, slotDefault }));
+      }
       
       spinner.succeed(chalk.green('Dry-run completed!'));
-      console.log(chalk.blue('\n📋 Changes that would be made:'));
       
-      changes.forEach((change: any) => {
-        console.log(chalk.gray(`• ${change.file}: ${change.description}`));
+      const nodeBumps = options.bumpNode ? planNodeVersionBumps(analyses.flatMap(analysis => analysis.nodeVersionPins)) : [];
+      if (nodeBumps.length > 0) {
+        console.log(chalk.blue(`\n🟢 Node.js version pins that would be raised to ${MIN_NODE_VERSION}+:`));
+        nodeBumps.forEach(({ pin, replacement }) => {
+          const change = replacement !== undefined ? `${pin.value} → ${replacement}` : `remove ${pin.value} from the matrix`;
+          console.log(chalk.gray(`• ${pin.file}:${pin.line} ${change}`));
+        });
+      }
+      
+      if (upgrades.length > 0) {
+        console.log(chalk.blue('\n📦 Package versions that would be upgraded:'));
+        upgrades.forEach(upgrade => {
+          console.log(chalk.gray(`• ${upgrade.file}:${upgrade.line} ${upgrade.name} ${upgrade.from} → ${upgrade.to}`));
+        });
+        if (options.install !== false) {
+          packageManagers.forEach(packageManager => {
+            console.log(chalk.gray(`  then: ${packageManager.name} install${formatDir(packageManager.dir)}`));
+          });
+        }
+      }
+      
+      if (diffs.length === 0 && upgrades.length === 0 && nodeBumps.length === 0) {
+        console.log(chalk.green('\n✅ No changes needed.'));
+        return;
+      }
+      
+      if (diffs.length > 0) {
+        console.log(chalk.blue(`\n📋 Changes that would be made (${diffs.length} files):`));
+      }
+      
+      diffs.forEach(diff => {
+        const applied = diff.transformations.length > 0 ? ` (${diff.transformations.join(', ')})` : '';
+        console.log(chalk.bold(`\n${diff.file}`) + chalk.gray(applied));
+        if (diff.error) {
+          const location = diff.error.line ? ` (line ${diff.error.line})` : '';
+          console.log(chalk.red(`✗ ${diff.error.message}${location}`));
+        }
+        if (diff.patch) {
+          printPatch(diff.patch);
+        }
+        diff.manualActions.forEach(action => {
+          console.log(chalk.yellow(`⚠ Manual action (${action.transformation}): ${action.message}`));
+        });
       });
       
+      if (options.diffOutput) {
+        const patchPath = path.resolve(process.cwd(), options.diffOutput);
+        await fs.outputFile(patchPath, await buildPatch(diffs, upgrades, nodeBumps));
+        console.log(chalk.blue(`\n📄 Patch saved to: ${options.diffOutput}`));
+      }
+      
       console.log(chalk.yellow('\n💡 Run without --dry-run to apply these changes.'));
       return;
     }
 
     // Execute actual migration
-    const results = await migrationEngine.migrate();
+    if (options.typecheck && !TypeChecker.load()) {
+      console.log(chalk.yellow('\n⚠ Skipping type check: no tsconfig.json or local TypeScript install found'));
+    }
+    // Every write from here on is journaled, so an interrupted run can be resumed or undone
+    if (options.resume) {
+      journal = interrupted;
+    } else {
+      const { resume, abort, yes, batch, dryRun, diffOutput, ...recorded } = options;
+      journal = await MigrationJournal.begin(recorded as Record<string, unknown>, backupId);
+    }
+    
+    const appResults: MigrationResult[] = [];
+    for (const app of apps) {
+      if (apps.length > 1) {
+        spinner.text = `Executing transformations (${app.name})...`;
+      }
+      appResults.push(await migrationEngine.migrate({
+        typecheck: options.typecheck,
+        format: options.format,
+        pool,
+        cache: options.cache !== false,
+        app,
+        slotDefault,
+        journal,
+        atomic: options.atomic
+      }));
+      if (options.atomic && appResults[appResults.length - 1].failed > 0) {
+        break;
+      }
+    }
+    const results = mergeResults(appResults);
+    
+    if (options.atomic && results.failed > 0) {
+      // Apps committed before the failing one are undone too
+      await journal.abort();
+      journal = undefined;
+      spinner.stop();
+      console.log(chalk.red('Nothing was written (--atomic), because these files failed:'));
+      results.errors.forEach(error => {
+        const location = error.line ? `${error.file}:${error.line}` : error.file;
+        console.log(chalk.red(`• ${location} - ${error.message}`));
+      });
+      throw new Error(`${results.failed} files failed to transform`);
+    }
+    
+    if (options.bumpNode) {
+      spinner.text = 'Updating Node.js version pins...';
+      const bumps = planNodeVersionBumps(analyses.flatMap(analysis => analysis.nodeVersionPins));
+      const pinFiles = Array.from(new Set(bumps.map(bump => bump.pin.file)));
+      await journal.track(pinFiles);
+      const bumpedFiles = await applyNodeVersionBumps(bumps);
+      await journal.complete(pinFiles);
+      bumpedFiles.forEach(file => {
+        results.changes.push({ file, description: `Raised Node.js version pins to ${MIN_NODE_VERSION}+`, type: 'transformation', transformation: 'node-version' });
+      });
+    }
+    
+    if (upgrades.length > 0) {
+      spinner.text = 'Upgrading package versions...';
+      // Reads the manifests again, since transformations may have rewritten their scripts
+      const manifests = Array.from(new Set(upgrades.map(upgrade => upgrade.file)));
+      await journal.track(manifests);
+      const upgradedFiles = await applyPackageUpgrades(upgrades);
+      await journal.complete(manifests);
+      upgradedFiles.forEach(file => {
+        const names = upgrades.filter(upgrade => upgrade.file === file).map(upgrade => `${upgrade.name}@${upgrade.to}`);
+        results.changes.push({ file, description: `Upgraded ${names.join(', ')}`, type: 'transformation', transformation: 'package-upgrades' });
+      });
+    }
+    
+    const installWarnings: string[] = [];
+    if (upgrades.length > 0 && options.install !== false) {
+      for (const packageManager of packageManagers) {
+        spinner.text = `Installing dependencies with ${packageManager.name}...`;
+        const lockfile = path.relative(process.cwd(), path.join(packageManager.dir, getLockfile(packageManager)));
+        const existed = await fs.pathExists(lockfile);
+        await journal.track([lockfile]);
+        try {
+          await installDependencies(packageManager);
+          results.changes.push({ file: lockfile, description: `Updated by ${packageManager.name} install`, type: existed ? 'transformation' : 'creation', transformation: 'package-upgrades' });
+        } catch (error) {
+          installWarnings.push(error instanceof Error ? error.message : String(error));
+        }
+        await journal.complete([lockfile]);
+      }
+    }
+    
+    if (options.resume) {
+      // Writes made before the interruption belong to this migration as well
+      const recorded = new Set(results.changes.map(change => change.file));
+      for (const { file, before, after } of await journal.writtenFiles()) {
+        if (!recorded.has(file) && before !== after) {
+          const type = before === null ? 'creation' : after === null ? 'deletion' : 'transformation';
+          results.changes.push({ file, description: 'Written before the migration was interrupted', type });
+        }
+      }
+    }
+    
+    // Rollback restores exactly the paths the migration wrote
+    if (backupId) {
+      await backupManager.recordMigration(backupId, results.changes);
+    }
+    await journal.finish();
+    journal = undefined;
     
     // Step 6: Post-migration Analysis
     spinner.text = 'Running post-migration analysis...';
-    const postAnalysis = await analyzer.analyze();
+    for (const analyzer of analyzers) {
+      await analyzer.analyze();
+    }
     
     // Step 7: Performance Comparison (if requested)
     let performanceComparison;
@@ -118,11 +375,11 @@ export async function migrateCommand(options: MigrateOptions): Promise<void> {
     const reportGenerator = new ReportGenerator();
     const report = await reportGenerator.generateReport({
       timestamp: new Date().toISOString(),
-      projectName: 'Next.js Project',
-      analysis,
+      projectName: apps.length === 1 ? apps[0].name : `${apps.length} Next.js apps`,
+      analysis: apps.length === 1 ? analyses[0] : mergeAnalyses(analyses),
       results,
       performanceComparison,
-      backupId: options.backup !== false ? 'backup-id' : undefined
+      backupId
     });
 
     spinner.succeed(chalk.green('Migration completed successfully!'));
@@ -130,8 +387,33 @@ export async function migrateCommand(options: MigrateOptions): Promise<void> {
     // Display summary
     console.log(chalk.blue('\n🎉 Migration Summary:'));
     console.log(chalk.green(`✓ ${results.successful} files migrated successfully`));
+    if (results.skipped.length > 0) {
+      console.log(chalk.gray(`• ${results.skipped.length} files with findings were left unchanged: ${results.skipped.join(', ')}`));
+    }
     if (results.failed > 0) {
-      console.log(chalk.yellow(`⚠ ${results.failed} files had issues`));
+      console.log(chalk.yellow(`⚠ ${results.failed} files had issues and were left untouched:`));
+      results.errors.forEach(error => {
+        const location = error.line ? `${error.file}:${error.line}` : error.file;
+        console.log(chalk.red(`• ${location} - ${error.message}`));
+      });
+    }
+    
+    if (upgrades.length > 0 && options.install === false) {
+      console.log(chalk.yellow('\n📦 package.json was updated without installing; run:'));
+      packageManagers.forEach(packageManager => {
+        console.log(chalk.yellow(`• ${packageManager.name} install${formatDir(packageManager.dir)}`));
+      });
+    }
+    installWarnings.forEach(warning => {
+      console.log(chalk.yellow(`\n⚠ ${warning}`));
+      console.log(chalk.yellow('  package.json was updated; fix the error and run the install again, or roll back.'));
+    });
+    
+    if (results.manualActions.length > 0) {
+      console.log(chalk.yellow('\n✋ Manual follow-up needed:'));
+      results.manualActions.forEach(action => {
+        console.log(chalk.yellow(`• ${action.file}: ${action.message}`));
+      });
     }
     
     if (performanceComparison) {
@@ -145,6 +427,129 @@ export async function migrateCommand(options: MigrateOptions): Promise<void> {
 
   } catch (error) {
     spinner.fail(chalk.red('Migration failed'));
+    if (journal && options.atomic) {
+      const undo = await journal.abort();
+      console.log(chalk.yellow(`↩ Undid the writes of this run (--atomic): restored ${undo.restored.length} files, removed ${undo.removed.length}`));
+    } else if (journal) {
+      console.log(chalk.yellow('The run was journaled: "migrate --resume" finishes it, "migrate --abort" undoes it.'));
+    }
     throw error;
+  } finally {
+    await pool.close();
+  }
+}
+
+/**
+ * Undoes the writes of an interrupted run using its journal.
+ */
+async function abortInterrupted(interrupted: MigrationJournal | undefined, spinner: Ora): Promise<void> {
+  if (!interrupted) {
+    spinner.info(chalk.yellow('There is no interrupted migration to abort.'));
+    return;
   }
+  
+  spinner.text = 'Undoing the interrupted migration...';
+  const result = await interrupted.abort();
+  
+  if (result.failed.length > 0) {
+    spinner.warn(chalk.yellow('Some files could not be put back:'));
+    result.failed.forEach(({ file, reason }) => {
+      console.log(chalk.red(`✗ ${file}: ${reason}`));
+    });
+    throw new Error(`Could not undo ${result.failed.length} files; the journal was kept, so --abort can be run again`);
+  }
+  
+  spinner.succeed(chalk.green(`Undid the interrupted migration: restored ${result.restored.length} files, removed ${result.removed.length}`));
+}
+
+/**
+ * Detects the package manager for each app, once per install directory.
+ */
+async function detectPackageManagers(appRoots: string[]): Promise<PackageManager[]> {
+  const packageManagers = new Map<string, PackageManager>();
+  for (const appRoot of appRoots) {
+    const packageManager = await detectPackageManager(process.cwd(), appRoot);
+    if (!packageManagers.has(packageManager.dir)) {
+      packageManagers.set(packageManager.dir, packageManager);
+    }
+  }
+  return Array.from(packageManagers.values());
+}
+
+function formatDir(dir: string): string {
+  const relative = path.relative(process.cwd(), dir);
+  return relative ? ` (in ${relative})` : '';
+}
+
+function mergeResults(results: MigrationResult[]): MigrationResult {
+  return {
+    successful: results.reduce((total, result) => total + result.successful, 0),
+    failed: results.reduce((total, result) => total + result.failed, 0),
+    changes: results.flatMap(result => result.changes),
+    errors: results.flatMap(result => result.errors),
+    manualActions: results.flatMap(result => result.manualActions),
+    skipped: results.flatMap(result => result.skipped)
+  };
+}
+
+function mergeAnalyses(analyses: ProjectAnalysis[]): ProjectAnalysis {
+  const levels: ProjectAnalysis['complexity'][] = ['low', 'medium', 'high'];
+  const hardest = analyses.reduce((current, analysis) =>
+    levels.indexOf(analysis.complexity) > levels.indexOf(current.complexity) ? analysis : current
+  );
+  
+  return {
+    isCompatible: analyses.every(analysis => analysis.isCompatible),
+    currentVersion: Array.from(new Set(analyses.map(analysis => analysis.currentVersion))).join(', '),
+    installedVersions: Object.assign({}, ...analyses.map(analysis => analysis.installedVersions)),
+    filesToTransform: analyses.flatMap(analysis => analysis.filesToTransform),
+    issues: analyses.flatMap(analysis => analysis.issues.map(issue => `[${analysis.app.name}] ${issue}`)),
+    dependencyIssues: analyses.flatMap(analysis => analysis.dependencyIssues),
+    nodeVersionPins: analyses.flatMap(analysis => analysis.nodeVersionPins),
+    missingSlotDefaults: analyses.flatMap(analysis => analysis.missingSlotDefaults),
+    recommendations: Array.from(new Set(analyses.flatMap(analysis => analysis.recommendations))),
+    complexity: hardest.complexity,
+    estimatedTime: hardest.estimatedTime,
+    effort: mergeEffort(analyses.map(analysis => analysis.effort), analyses.map(analysis => analysis.app.name))
+  };
+}
+
+/**
+ * Joins the source diffs with the Node.js version pin bumps and package upgrades, applied
+ * after the transforms as a migration applies them, so the patch reproduces the whole migration.
+ */
+async function buildPatch(diffs: FileDiff[], upgrades: PackageUpgrade[], nodeBumps: NodeVersionBump[]): Promise<string> {
+  const patches = new Map(diffs.map(diff => [diff.file, diff.patch]));
+  const files = Array.from(new Set([...nodeBumps.map(bump => bump.pin.file), ...upgrades.map(upgrade => upgrade.file)]));
+
+  for (const file of files) {
+    const before = await fs.readFile(path.join(process.cwd(), file), 'utf-8');
+    // A manifest whose scripts a transform rewrote gets one patch covering both edits
+    const transformed = patches.get(file) ? applyPatch(before, patches.get(file)) : before;
+    if (transformed === false) {
+      throw new Error(`Could not combine the changes to ${file} into one patch`);
+    }
+
+    const bumped = bumpNodeVersions(transformed, nodeBumps.filter(bump => bump.pin.file === file));
+    const after = upgradeManifest(bumped, upgrades.filter(upgrade => upgrade.file === file));
+    patches.set(file, after === before ? '' : createFilePatch(file, file, before, after));
+  }
+
+  return Array.from(patches.values()).join('');
+}
+
+export function printPatch(patch: string): void {
+  patch.trimEnd().split('\n').forEach(line => {
+    if (line.startsWith('diff --git') || line.startsWith('---') || line.startsWith('+++')) {
+      console.log(chalk.bold(line));
+    } else if (line.startsWith('@@')) {
+      console.log(chalk.cyan(line));
+    } else if (line.startsWith('+')) {
+      console.log(chalk.green(line));
+    } else if (line.startsWith('-')) {
+      console.log(chalk.red(line));
+    } else {
+      console.log(chalk.gray(line));
+    }
+  });
 }
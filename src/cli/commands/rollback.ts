@@ -1,10 +1,17 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import inquirer from 'inquirer';
-import { BackupManager } from '../../utils/backup';
+import path from 'path';
+import { globToRegExp } from '../../analyzers/codeowners';
+import { BackupManager, ChangedFile } from '../../utils/backup';
 
 export interface RollbackOptions {
   yes?: boolean;
+  force?: boolean;
+  // Selective rollback: only revert the migrated files matching all given filters
+  file?: string;
+  transform?: string;
+  dir?: string;
 }
 
 export async function rollbackCommand(options: RollbackOptions): Promise<void> {
@@ -47,13 +54,66 @@ export async function rollbackCommand(options: RollbackOptions): Promise<void> {
       selectedBackup = answer.backup;
     }
 
+    // Narrow the rollback to some files, by filter or by picking them
+    const changed = backupManager.changedFiles(selectedBackup);
+    let files: string[] | undefined;
+    
+    if (options.file || options.transform || options.dir) {
+      if (changed.length === 0) {
+        throw new Error(`Backup ${selectedBackup.id} has no per-change records, so it can only be restored as a whole`);
+      }
+      
+      const matches = changed.filter(file => matchesFilters(file, options));
+      if (matches.length === 0) {
+        console.log(chalk.yellow('No migrated files match the given filters.'));
+        return;
+      }
+      files = withRenames(matches, changed);
+    } else if (!options.yes && changed.length > 0) {
+      const answer = await inquirer.prompt([
+        {
+          type: 'checkbox',
+          name: 'files',
+          message: 'Which changes would you like to revert?',
+          choices: changed.map(file => ({ name: describeChange(file), value: file, checked: true }))
+        }
+      ]);
+      
+      if (answer.files.length === 0) {
+        console.log(chalk.yellow('Rollback cancelled.'));
+        return;
+      }
+      if (answer.files.length < changed.length) {
+        files = withRenames(answer.files, changed);
+      }
+    }
+    
+    if (files) {
+      console.log(chalk.blue(`\n↩ Files to revert (${files.length}):`));
+      files.forEach(file => console.log(chalk.gray(`• ${file}`)));
+    }
+
+    // Files are restored whole, so other transformations in the same files would be undone too
+    const alsoReverted = options.transform && files ? otherTransformations(files, changed, options.transform) : [];
+    if (alsoReverted.length > 0) {
+      const listed = alsoReverted.map(({ file, transformations }) => `${file} (${transformations.join(', ')})`).join(', ');
+      if (!options.force) {
+        throw new Error(`These files were also changed by other transformations, which reverting ${options.transform} would undo too: ${listed}. Revert the files as a whole without --transform, or pass --force.`);
+      }
+      console.log(chalk.yellow(`\n⚠ Also reverting other transformations in: ${listed}`));
+    }
+
     // Confirmation
     if (!options.yes) {
       const confirm = await inquirer.prompt([
         {
           type: 'confirm',
           name: 'proceed',
-          message: `Are you sure you want to restore from backup ${selectedBackup.id}?`,
+          message: alsoReverted.length > 0
+            ? `Revert ${files.length} files from backup ${selectedBackup.id}, including the changes of the other transformations listed above?`
+            : files
+            ? `Are you sure you want to revert ${files.length} files from backup ${selectedBackup.id}?`
+            : `Are you sure you want to restore from backup ${selectedBackup.id}?`,
           default: false
         }
       ]);
@@ -66,14 +126,67 @@ export async function rollbackCommand(options: RollbackOptions): Promise<void> {
 
     // Execute rollback
     spinner.start('Restoring from backup...');
-    await backupManager.restoreBackup(selectedBackup.id);
+    const result = await backupManager.restoreBackup(selectedBackup.id, { force: options.force, files });
+    
+    if (result.failed.length > 0) {
+      spinner.warn(chalk.yellow(`Restored ${result.restored.length} files and removed ${result.removed.length}, but some could not be restored:`));
+      result.failed.forEach(({ file, reason }) => {
+        console.log(chalk.red(`✗ ${file}: ${reason}`));
+      });
+      throw new Error(`Rollback incomplete: ${result.failed.length} files could not be restored from backup ${selectedBackup.id}`);
+    }
     
     spinner.succeed(chalk.green('Rollback completed successfully!'));
-    console.log(chalk.blue('\n✅ Project restored to previous state'));
-    console.log(chalk.gray(`Restored from backup: ${selectedBackup.id}`));
+    console.log(chalk.blue(files ? '\n✅ Selected files restored; other migrated files were left alone' : '\n✅ Project restored to previous state'));
+    console.log(chalk.gray(`Restored ${result.restored.length} files and removed ${result.removed.length} from backup: ${selectedBackup.id}`));
 
   } catch (error) {
     spinner.fail(chalk.red('Rollback failed'));
     throw error;
   }
 }
+
+function matchesFilters(changed: ChangedFile, options: RollbackOptions): boolean {
+  if (options.file && !globToRegExp(options.file).test(changed.file)) {
+    return false;
+  }
+  if (options.transform && !changed.transformations.includes(options.transform)) {
+    return false;
+  }
+  if (options.dir) {
+    const dir = path.posix.normalize(options.dir.split(path.sep).join('/')).replace(/\/$/, '');
+    if (dir !== '.' && changed.file !== dir && !changed.file.startsWith(`${dir}/`)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Adds the other side of every rename, so e.g. middleware.ts and proxy.ts are reverted together.
+ */
+function withRenames(selected: ChangedFile[], changed: ChangedFile[]): string[] {
+  const files = new Set(selected.map(file => file.file));
+  selected.forEach(file => {
+    if (file.renamedWith && changed.some(other => other.file === file.renamedWith)) {
+      files.add(file.renamedWith);
+    }
+  });
+  return Array.from(files).sort();
+}
+
+/**
+ * Lists, per file, the transformations other than `transform` whose changes a restore of
+ * these files would also revert.
+ */
+function otherTransformations(files: string[], changed: ChangedFile[], transform: string): { file: string; transformations: string[] }[] {
+  return changed
+    .filter(file => files.includes(file.file))
+    .map(file => ({ file: file.file, transformations: file.transformations.filter(id => id !== transform) }))
+    .filter(file => file.transformations.length > 0);
+}
+
+function describeChange(changed: ChangedFile): string {
+  const status = changed.status === 'modified' ? '' : `${changed.status}, `;
+  return `${changed.file} (${status}${changed.transformations.join(', ') || 'changed'})`;
+}
@@ -7,6 +7,7 @@ import inquirer from 'inquirer';
 import { migrateCommand } from './commands/migrate';
 import { rollbackCommand } from './commands/rollback';
 import { analyzeCommand } from './commands/analyze';
+import { backupsDiffCommand, backupsExportCommand, backupsImportCommand, backupsListCommand, backupsPruneCommand, backupsShowCommand } from './commands/backups';
 const version = '1.0.0';
 
 const program = new Command();
@@ -37,8 +38,22 @@ program
   .command('migrate')
   .description('Migrate your Next.js project to version 16')
   .option('-d, --dry-run', 'Preview changes without applying them')
+  .option('--diff-output <file>', 'Write the dry-run diff, including package.json upgrades and Node.js pin bumps, to a patch file (lockfiles are not included; install afterwards)')
   .option('-y, --yes', 'Skip confirmation prompts')
   .option('--no-backup', 'Skip creating backups (not recommended)')
+  .option('--typecheck', 'Type-check changed files with the project\'s tsconfig before writing them')
+  .option('--format', 'Format changed ranges with the project\'s Prettier install')
+  .option('-j, --jobs <n>', 'Number of worker threads (defaults to CPUs minus one)')
+  .option('--timeout <ms>', 'Per-file timeout in milliseconds', String(30000))
+  .option('--no-cache', 'Re-analyze every file instead of reusing cached results')
+  .option('--app <name>', 'Only handle one app of a monorepo (package name or directory)')
+  .option('--bump-node', 'Raise Node.js version pins (engines, .nvmrc, Docker, CI) to 20.9+')
+  .option('--next-version <version>', 'Version, range or dist-tag to upgrade next and eslint-config-next to')
+  .option('--no-install', 'Update package.json without running the package manager install')
+  .option('--slot-default <kind>', 'What generated default.js files for parallel route slots do: null or not-found', 'null')
+  .option('--atomic', 'Write nothing unless every file transforms successfully')
+  .option('--resume', 'Finish a migration that was interrupted')
+  .option('--abort', 'Undo the writes of a migration that was interrupted')
   .option('--performance', 'Include performance analysis')
   .option('--batch', 'Batch mode for CI/CD (non-interactive)')
   .action(async (options) => {
@@ -59,6 +74,10 @@ program
   .command('rollback')
   .description('Rollback to the previous state before migration')
   .option('-y, --yes', 'Skip confirmation prompts')
+  .option('--force', 'Overwrite migrated files that were edited after the migration, and let --transform revert files other transformations also changed')
+  .option('--file <glob>', 'Only revert migrated files matching this pattern')
+  .option('--transform <id>', 'Only revert files changed by this transformation')
+  .option('--dir <path>', 'Only revert migrated files in this directory')
   .action(async (options) => {
     const spinner = ora('Rolling back migration...').start();
     
@@ -72,12 +91,65 @@ program
     }
   });
 
+// Backups command group
+const backups = program
+  .command('backups')
+  .description('Inspect and manage migration backups');
+
+backups
+  .command('list')
+  .description('List backups with their file counts')
+  .action(() => runBackupsCommand(() => backupsListCommand()));
+
+backups
+  .command('show <id>')
+  .description('Show a backup\'s metadata, snapshot files and migrated files')
+  .action((id) => runBackupsCommand(() => backupsShowCommand(id)));
+
+backups
+  .command('diff <id>')
+  .description('Compare a backup\'s snapshot with the working tree')
+  .option('--stat', 'Only list the files that differ')
+  .action((id, options) => runBackupsCommand(() => backupsDiffCommand(id, options)));
+
+backups
+  .command('prune')
+  .description('Delete old backups, their directories and git refs')
+  .option('--keep <n>', 'Always keep this many of the most recent backups')
+  .option('--older-than <duration>', 'Only delete backups older than this, e.g. 30d, 12h or 2w')
+  .option('-y, --yes', 'Skip confirmation prompts')
+  .action((options) => runBackupsCommand(() => backupsPruneCommand(options)));
+
+backups
+  .command('export <id> <file>')
+  .description('Write a backup\'s snapshot to a .tgz archive')
+  .action((id, file) => runBackupsCommand(() => backupsExportCommand(id, file)));
+
+backups
+  .command('import <file>')
+  .description('Add a backup from an archive made by "backups export"')
+  .action((file) => runBackupsCommand(() => backupsImportCommand(file)));
+
+async function runBackupsCommand(command: () => Promise<void>): Promise<void> {
+  try {
+    await command();
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+}
+
 // Analyze command
 program
   .command('analyze')
   .description('Analyze your project for Next.js 16 compatibility')
   .option('--performance', 'Include performance analysis')
   .option('--detailed', 'Show detailed analysis report')
+  .option('--routes', 'List App Router and Pages Router routes with their segment config and outstanding findings')
+  .option('-j, --jobs <n>', 'Number of worker threads (defaults to CPUs minus one)')
+  .option('--timeout <ms>', 'Per-file timeout in milliseconds', String(30000))
+  .option('--no-cache', 'Re-analyze every file instead of reusing cached results')
+  .option('--app <name>', 'Only handle one app of a monorepo (package name or directory)')
   .action(async (options) => {
     const spinner = ora('Analyzing project...').start();
     
@@ -0,0 +1,3 @@
+export * from './analyzers';
+export * from './transformers';
+export * from './utils';
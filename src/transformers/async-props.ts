@@ -0,0 +1,614 @@
+import path from 'path';
+import jscodeshift, { API, ASTPath, Collection, FileInfo, JSCodeshift } from 'jscodeshift';
+import { Detection, detectAt } from '../analyzers/findings';
+import { DEFAULT_PAGE_EXTENSIONS } from '../analyzers/workspace';
+import { isReference } from './references';
+import type { TransformationFile } from './registry';
+
+export type AsyncPropName = 'params' | 'searchParams';
+
+// Props that Next.js passes to each App Router segment file
+const SEGMENT_PROPS: Record<string, AsyncPropName[]> = {
+  page: ['params', 'searchParams'],
+  layout: ['params'],
+  template: ['params'],
+  default: ['params']
+};
+
+const METADATA_EXPORTS = ['generateMetadata', 'generateViewport'];
+
+const SEGMENT_EXTENSIONS = ['.tsx', '.jsx', '.ts', '.js'];
+
+const RESERVED_WORDS = new Set([
+  'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete',
+  'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import',
+  'in', 'instanceof', 'let', 'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true',
+  'try', 'typeof', 'var', 'void', 'while', 'with', 'yield'
+]);
+
+/**
+ * Returns the App Router segment kind (page, layout, template, default) of a file, if any.
+ * Honors custom pageExtensions such as `page.tsx`, so `app/page.page.tsx` is a page.
+ */
+export function getRouteSegment(filePath: string, pageExtensions: string[] = DEFAULT_PAGE_EXTENSIONS): string | undefined {
+  const fileName = path.basename(filePath);
+  const inAppDir = filePath.split(/[\\/]/).includes('app');
+
+  // Only JavaScript/TypeScript sources can be transformed
+  if (!inAppDir || !SEGMENT_EXTENSIONS.includes(path.extname(fileName))) {
+    return undefined;
+  }
+
+  const extension = pageExtensions.find(ext => fileName.endsWith(`.${ext}`) && SEGMENT_PROPS[fileName.slice(0, -ext.length - 1)]);
+
+  return extension ? fileName.slice(0, -extension.length - 1) : undefined;
+}
+
+export function isClientComponent(j: JSCodeshift, root: Collection): boolean {
+  const program = root.find(j.Program).paths()[0].value;
+  const directives = (program as any).directives || [];
+
+  if (directives.some((directive: any) => directive.value?.value === 'use client')) {
+    return true;
+  }
+
+  // Some parsers keep directives as plain expression statements
+  const first = program.body[0];
+  return j.ExpressionStatement.check(first)
+    && (j.StringLiteral.check(first.expression) || j.Literal.check(first.expression))
+    && (first.expression as any).value === 'use client';
+}
+
+interface PropContext {
+  j: JSCodeshift;
+  root: Collection;
+  propName: AsyncPropName;
+  // Client components unwrap with React's use() instead of await
+  client: boolean;
+  useName: string;
+  report: (message: string) => void;
+}
+
+/**
+ * Rewrites the params/searchParams props of App Router segment exports to be unwrapped once,
+ * e.g. `params.slug` becomes `const { slug } = await params` at the top of an async function,
+ * or `const { slug } = use(params)` in a 'use client' file.
+ * Anything that cannot be proven to be a Next-provided prop is left untouched.
+ */
+export function makePropAsync(fileInfo: FileInfo, api: API, propName: AsyncPropName, pageExtensions?: string[]): string {
+  const j = api.jscodeshift;
+  const segment = getRouteSegment(fileInfo.path, pageExtensions);
+
+  if (!segment) {
+    return fileInfo.source;
+  }
+
+  const root = j(fileInfo.source);
+  const client = isClientComponent(j, root);
+  const context: PropContext = {
+    j,
+    root,
+    propName,
+    client,
+    useName: client ? getReactImport(j, root, 'use') || 'use' : 'use',
+    report: api.report
+  };
+
+  const functions = findSegmentFunctions(j, root, segment, propName);
+
+  // A local binding named `use` that is not React's would be shadowed
+  if (client && functions.length > 0 && !getReactImport(j, root, 'use') && root.find(j.Program).paths()[0].scope.declares('use')) {
+    context.report(`${propName} must be unwrapped with React's use(), but "use" is already declared in this file`);
+    return fileInfo.source;
+  }
+
+  let modified = false;
+
+  for (const fnPath of functions) {
+    if (unwrapProp(context, fnPath)) {
+      modified = true;
+    }
+  }
+
+  if (!modified) {
+    return fileInfo.source;
+  }
+
+  if (client) {
+    ensureReactImport(j, root, 'use');
+  }
+
+  return root.toSource();
+}
+
+/**
+ * Returns the first synchronous params/searchParams read in each segment export that needs one.
+ * Props that are never read, or are already awaited, are not reported.
+ */
+export function detectAsyncProp(file: TransformationFile, propName: AsyncPropName): Detection[] {
+  const segment = getRouteSegment(file.path, file.pageExtensions);
+  const root = segment ? file.root : undefined;
+
+  if (!root) {
+    return [];
+  }
+
+  const j = jscodeshift;
+  const client = isClientComponent(j, root);
+  const useName = client ? getReactImport(j, root, 'use') || 'use' : 'use';
+  const context: PropContext = { j, root, propName, client, useName, report: () => undefined };
+  const detections: Detection[] = [];
+
+  for (const fnPath of findSegmentFunctions(j, root, segment, propName)) {
+    const param = (fnPath.value as any).params[0];
+    const property = j.ObjectPattern.check(param) ? findPatternProperty(j, param, propName) : undefined;
+
+    // ({ params: { slug } }) always needs rewriting
+    if (property && j.ObjectPattern.check(property.value)) {
+      detections.push(detectAt(property, `${propName} is destructured in the signature, but it is a Promise in Next.js 16`, { severity: 'error' }));
+      continue;
+    }
+
+    let occurrences: ASTPath[] = [];
+    if (property && j.Identifier.check(property.value)) {
+      occurrences = findReferences(j, fnPath, property.value.name, fnPath.scope);
+    } else if (j.Identifier.check(param)) {
+      occurrences = findReferences(j, fnPath, param.name, fnPath.scope)
+        .map(reference => reference.parent)
+        .filter(parent => j.MemberExpression.check(parent.value) && !parent.value.computed && j.Identifier.check(parent.value.property) && parent.value.property.name === propName);
+    }
+
+    if (occurrences.length === 0 || occurrences.some(occurrence => isUnwrapped(context, occurrence))) {
+      continue;
+    }
+
+    // Only member reads and `const { ... } = params` can be rewritten automatically
+    const fixable = !(fnPath.value as any).generator && occurrences.every(occurrence => getOccurrenceKind(context, fnPath, occurrence));
+
+    detections.push(detectAt(
+      occurrences[0].value,
+      `${propName} is a Promise in Next.js 16; unwrap it with ${client ? `use(${propName})` : `await ${propName}`}`,
+      { severity: 'error', fixable }
+    ));
+  }
+
+  return detections;
+}
+
+function findSegmentFunctions(j: JSCodeshift, root: Collection, segment: string, propName: AsyncPropName): ASTPath[] {
+  const functions: ASTPath[] = [];
+
+  if (!SEGMENT_PROPS[segment].includes(propName)) {
+    return functions;
+  }
+
+  // The default export is the page/layout component itself
+  root.find(j.ExportDefaultDeclaration).forEach(exportPath => {
+    const declaration = exportPath.value.declaration;
+
+    if (isFunction(j, declaration)) {
+      functions.push(exportPath.get('declaration'));
+    } else if (j.Identifier.check(declaration)) {
+      const local = findLocalFunction(j, root, declaration.name);
+      if (local) {
+        functions.push(local);
+      }
+    }
+  });
+
+  // generateMetadata/generateViewport receive the same props as the page or layout
+  if (segment === 'page' || segment === 'layout') {
+    root.find(j.ExportNamedDeclaration).forEach(exportPath => {
+      const declaration = exportPath.value.declaration;
+
+      if (j.FunctionDeclaration.check(declaration) && j.Identifier.check(declaration.id) && METADATA_EXPORTS.includes(declaration.id.name)) {
+        functions.push(exportPath.get('declaration'));
+      } else if (j.VariableDeclaration.check(declaration)) {
+        declaration.declarations.forEach((declarator: any, index: number) => {
+          if (j.Identifier.check(declarator.id) && METADATA_EXPORTS.includes(declarator.id.name) && isFunction(j, declarator.init)) {
+            functions.push(exportPath.get('declaration', 'declarations', index, 'init'));
+          }
+        });
+      }
+
+      (exportPath.value.specifiers || []).forEach((specifier: any) => {
+        if (!exportPath.value.source && METADATA_EXPORTS.includes(specifier.exported?.name)) {
+          const local = findLocalFunction(j, root, specifier.local?.name || specifier.exported.name);
+          if (local) {
+            functions.push(local);
+          }
+        }
+      });
+    });
+  }
+
+  return functions;
+}
+
+function findLocalFunction(j: JSCodeshift, root: Collection, name: string): ASTPath | undefined {
+  const declaration = root.find(j.FunctionDeclaration, { id: { name } })
+    .filter(fnPath => j.Program.check(fnPath.parent.value) || j.ExportNamedDeclaration.check(fnPath.parent.value));
+
+  if (declaration.size() > 0) {
+    return declaration.paths()[0];
+  }
+
+  const declarator = root.find(j.VariableDeclarator, { id: { name } })
+    .filter(declaratorPath => isFunction(j, declaratorPath.value.init));
+
+  return declarator.size() > 0 ? declarator.paths()[0].get('init') : undefined;
+}
+
+function isFunction(j: JSCodeshift, node: any): boolean {
+  return j.FunctionDeclaration.check(node) || j.FunctionExpression.check(node) || j.ArrowFunctionExpression.check(node);
+}
+
+function unwrapProp(context: PropContext, fnPath: ASTPath): boolean {
+  const { j, propName } = context;
+  const fn = fnPath.value as any;
+
+  if (fn.params.length === 0) {
+    return false;
+  }
+  if (fn.generator) {
+    context.report(`${propName} is read in a generator function, which cannot be made async automatically`);
+    return false;
+  }
+
+  const param = fn.params[0];
+  const fnScope = fnPath.scope;
+
+  if (j.ObjectPattern.check(param)) {
+    const property = findPatternProperty(j, param, propName);
+
+    if (!property) {
+      return false;
+    }
+
+    // ({ params }) or ({ params: p })
+    if (j.Identifier.check(property.value)) {
+      const localName = property.value.name;
+      const references = findReferences(j, fnPath, localName, fnScope);
+
+      return destructureMembers(context, fnPath, references, localName, param);
+    }
+
+    // ({ params: { slug } })
+    if (j.ObjectPattern.check(property.value)) {
+      // ({ params: paramsPromise }) when `params` is already taken in the function
+      const localName = fnScope.declares(propName) || findReferences(j, fnPath, propName).length > 0
+        ? uniqueName(j, fnPath, `${propName}Promise`)
+        : propName;
+
+      const pattern = property.value;
+      property.value = j.identifier(localName);
+      property.shorthand = localName === propName;
+
+      insertDeclaration(context, fnPath, j.variableDeclaration('const', [
+        j.variableDeclarator(pattern, unwrapExpression(context, j.identifier(localName)))
+      ]));
+      updatePropType(context, param);
+      return true;
+    }
+
+    return false;
+  }
+
+  // (props) => props.params.slug
+  if (j.Identifier.check(param)) {
+    const propReferences = findReferences(j, fnPath, param.name, fnScope)
+      .map(reference => reference.parent)
+      .filter(parent =>
+        j.MemberExpression.check(parent.value)
+          && !parent.value.computed
+          && j.Identifier.check(parent.value.property)
+          && parent.value.property.name === propName
+      );
+
+    return destructureMembers(context, fnPath, propReferences, `${param.name}.${propName}`, param);
+  }
+
+  return false;
+}
+
+function findPatternProperty(j: JSCodeshift, pattern: any, propName: AsyncPropName): any {
+  return pattern.properties.find((prop: any) =>
+    (j.ObjectProperty.check(prop) || j.Property.check(prop))
+      && !prop.computed
+      && j.Identifier.check(prop.key)
+      && prop.key.name === propName
+  );
+}
+
+/**
+ * Replaces every `<promise>.key` read with `key` and declares `const { ...keys } = await <promise>`;
+ * `const { ... } = <promise>` is unwrapped where it stands. When a key clashes with an existing
+ * name, the keys are read off one unwrapped value instead. Any other use is reported.
+ */
+function destructureMembers(context: PropContext, fnPath: ASTPath, occurrences: ASTPath[], target: string, param: any): boolean {
+  const { j, propName } = context;
+
+  if (occurrences.length === 0) {
+    return false;
+  }
+
+  // Already migrated by hand or by a previous run
+  if (occurrences.some(occurrence => isUnwrapped(context, occurrence))) {
+    return false;
+  }
+
+  const unsupported = occurrences.find(occurrence => !getOccurrenceKind(context, fnPath, occurrence));
+  if (unsupported) {
+    reportManualAction(context, fnPath, unsupported);
+    return false;
+  }
+
+  const members = occurrences.filter(occurrence => getOccurrenceKind(context, fnPath, occurrence) === 'member');
+  const keys: string[] = [];
+  members.forEach(occurrence => {
+    const key = occurrence.parent.value.property.name;
+    if (!keys.includes(key)) {
+      keys.push(key);
+    }
+  });
+
+  occurrences
+    .filter(occurrence => getOccurrenceKind(context, fnPath, occurrence) === 'destructure')
+    .forEach(occurrence => {
+      j(occurrence).replaceWith(unwrapExpression(context, occurrence.value));
+    });
+
+  if (keys.length === 0) {
+    makeAsync(context, fnPath);
+    updatePropType(context, param);
+    return true;
+  }
+
+  const unwrapped = context.client ? `${context.useName}(${target})` : `await ${target}`;
+  let source: string;
+
+  // Introducing a local must not shadow or collide with an existing name
+  if (keys.every(key => !RESERVED_WORDS.has(key) && findReferences(j, fnPath, key).length === 0)) {
+    members.forEach(occurrence => {
+      j(occurrence.parent).replaceWith(j.identifier(occurrence.parent.value.property.name));
+    });
+    source = `const { ${keys.join(', ')} } = ${unwrapped};`;
+  } else {
+    const resolved = uniqueName(j, fnPath, `resolved${propName[0].toUpperCase()}${propName.slice(1)}`);
+    members.forEach(occurrence => {
+      j(occurrence).replaceWith(j.identifier(resolved));
+    });
+    source = `const ${resolved} = ${unwrapped};`;
+  }
+
+  // Parsed rather than built so recast keeps the pattern on one line
+  insertDeclaration(context, fnPath, j(source).find(j.VariableDeclaration).paths()[0].value);
+  updatePropType(context, param);
+  return true;
+}
+
+/**
+ * Classifies a read of the prop: a plain member read (`params.slug`) or the init of a
+ * destructuring declaration in the function body (`const { slug } = params`). Anything else
+ * cannot be rewritten automatically.
+ */
+function getOccurrenceKind(context: PropContext, fnPath: ASTPath, occurrence: ASTPath): 'member' | 'destructure' | undefined {
+  const { j } = context;
+  const parent = occurrence.parent.value;
+
+  if (j.MemberExpression.check(parent) && parent.object === occurrence.value && !parent.computed && j.Identifier.check(parent.property) && !isWriteTarget(j, occurrence.parent)) {
+    return 'member';
+  }
+  if (j.VariableDeclarator.check(parent) && parent.init === occurrence.value && j.ObjectPattern.check(parent.id) && !isInsideNestedFunction(occurrence, fnPath)) {
+    return 'destructure';
+  }
+  return undefined;
+}
+
+/**
+ * Returns `base`, or `base2`, `base3`... if that name is already used in the function.
+ */
+function uniqueName(j: JSCodeshift, fnPath: ASTPath, base: string): string {
+  for (let index = 1; ; index++) {
+    const name = index === 1 ? base : `${base}${index}`;
+    if (!fnPath.scope.declares(name) && findReferences(j, fnPath, name).length === 0) {
+      return name;
+    }
+  }
+}
+
+function unwrapExpression(context: PropContext, target: any): any {
+  const { j } = context;
+
+  return context.client
+    ? j.callExpression(j.identifier(context.useName), [target])
+    : j.awaitExpression(target);
+}
+
+function isUnwrapped(context: PropContext, occurrence: ASTPath): boolean {
+  const { j } = context;
+  const parent = occurrence.parent.value;
+
+  return j.AwaitExpression.check(parent)
+    || (j.CallExpression.check(parent) && j.Identifier.check(parent.callee) && parent.callee.name === context.useName);
+}
+
+function reportManualAction(context: PropContext, fnPath: ASTPath, occurrence: ASTPath): void {
+  const { propName } = context;
+  const line = (occurrence.value as any).loc?.start.line;
+  const location = line ? `line ${line}: ` : '';
+  const unwrap = context.client ? `use(${propName})` : `await ${propName}`;
+
+  // use() may only be called while rendering, not from effects or event handlers
+  if (context.client && isInsideNestedFunction(occurrence, fnPath)) {
+    context.report(`${location}${propName} is used inside a hook or callback; unwrap it with use(${propName}) in the component body and pass the value in`);
+  } else {
+    context.report(`${location}${propName} is passed on or used in a way that cannot be rewritten to ${unwrap} automatically`);
+  }
+}
+
+function isInsideNestedFunction(path: ASTPath, fnPath: ASTPath): boolean {
+  let current = path.parent;
+
+  while (current && current !== fnPath) {
+    if (isFunctionNode(current.value)) {
+      return true;
+    }
+    current = current.parent;
+  }
+
+  return false;
+}
+
+function isFunctionNode(node: any): boolean {
+  return ['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression', 'ObjectMethod', 'ClassMethod'].includes(node?.type);
+}
+
+function insertDeclaration(context: PropContext, fnPath: ASTPath, declaration: any): void {
+  const { j } = context;
+  const fn = fnPath.value as any;
+
+  if (!j.BlockStatement.check(fn.body)) {
+    if (fn.body.extra?.parenthesized) {
+      fn.body.extra.parenthesized = false;
+    }
+    fn.body = j.blockStatement([j.returnStatement(fn.body)]);
+  }
+
+  fn.body.body.unshift(declaration);
+  makeAsync(context, fnPath);
+}
+
+function makeAsync(context: PropContext, fnPath: ASTPath): void {
+  const { j } = context;
+  const fn = fnPath.value as any;
+
+  if (!fn.async && !context.client) {
+    fn.async = true;
+
+    // An explicit return type has to become a Promise once the function is async
+    if (fn.returnType && j.TSTypeAnnotation.check(fn.returnType)) {
+      wrapInPromise(j, fn.returnType);
+    }
+  }
+}
+
+/**
+ * Returns the local name of a named import from 'react', if present.
+ */
+function getReactImport(j: JSCodeshift, root: Collection, name: string): string | undefined {
+  let localName: string | undefined;
+
+  root.find(j.ImportDeclaration, { source: { value: 'react' } }).forEach(importPath => {
+    (importPath.value.specifiers || []).forEach((specifier: any) => {
+      if (j.ImportSpecifier.check(specifier) && specifier.imported.name === name && (importPath.value as any).importKind !== 'type') {
+        localName = (specifier.local?.name as string) || name;
+      }
+    });
+  });
+
+  return localName;
+}
+
+/**
+ * Adds `name` to an existing value import from 'react', or a new `import { name } from 'react'`.
+ */
+function ensureReactImport(j: JSCodeshift, root: Collection, name: string): void {
+  if (getReactImport(j, root, name)) {
+    return;
+  }
+
+  const reactImports = root.find(j.ImportDeclaration, { source: { value: 'react' } })
+    .filter(importPath =>
+      (importPath.value as any).importKind !== 'type'
+        && !(importPath.value.specifiers || []).some(specifier => j.ImportNamespaceSpecifier.check(specifier))
+    );
+
+  if (reactImports.size() > 0) {
+    const declaration = reactImports.paths()[0].value;
+    declaration.specifiers = [...(declaration.specifiers || []), j.importSpecifier(j.identifier(name))];
+    return;
+  }
+
+  const program = root.find(j.Program).paths()[0].value as any;
+  const imports = program.body.filter((statement: any) => j.ImportDeclaration.check(statement));
+  const newImport = j(`import { ${name} } from 'react';`).find(j.ImportDeclaration).paths()[0].value;
+
+  if (imports.length > 0) {
+    program.body.splice(program.body.indexOf(imports[imports.length - 1]) + 1, 0, newImport);
+    return;
+  }
+
+  // Rebuild the directives so recast does not print 'use client';; above a new first statement
+  program.directives = (program.directives || []).map((directive: any) => {
+    const literal = j.directiveLiteral(directive.value.value);
+    (literal as any).extra = directive.value.extra;
+    return j.directive(literal);
+  });
+  program.body.unshift(newImport);
+}
+
+function findReferences(j: JSCodeshift, fnPath: ASTPath, name: string, scope?: any): ASTPath[] {
+  return j(fnPath.get('body'))
+    .find(j.Identifier, { name })
+    .filter(identifierPath => isReference(j, identifierPath))
+    .filter(identifierPath => !scope || identifierPath.scope.lookup(name) === scope)
+    .paths();
+}
+
+function isWriteTarget(j: JSCodeshift, memberPath: ASTPath): boolean {
+  const parent = memberPath.parent.value;
+
+  return (j.AssignmentExpression.check(parent) && parent.left === memberPath.value)
+    || j.UpdateExpression.check(parent)
+    || (j.UnaryExpression.check(parent) && parent.operator === 'delete');
+}
+
+/**
+ * Wraps the prop's type in Promise<> for inline type literals and same-file interfaces/type aliases.
+ */
+function updatePropType(context: PropContext, param: any): void {
+  const { j, root, propName } = context;
+  const annotation = param.typeAnnotation?.typeAnnotation;
+
+  if (!annotation) {
+    return;
+  }
+
+  let members: any[] | undefined;
+
+  if (j.TSTypeLiteral.check(annotation)) {
+    members = annotation.members;
+  } else if (j.TSTypeReference.check(annotation) && j.Identifier.check(annotation.typeName) && !annotation.typeParameters) {
+    const typeName = annotation.typeName.name;
+    const interfaceDeclaration = root.find(j.TSInterfaceDeclaration, { id: { name: typeName } });
+    const aliasDeclaration = root.find(j.TSTypeAliasDeclaration, { id: { name: typeName } });
+
+    if (interfaceDeclaration.size() > 0) {
+      members = interfaceDeclaration.paths()[0].value.body.body;
+    } else if (aliasDeclaration.size() > 0 && j.TSTypeLiteral.check(aliasDeclaration.paths()[0].value.typeAnnotation)) {
+      members = (aliasDeclaration.paths()[0].value.typeAnnotation as any).members;
+    }
+  }
+
+  const member = members?.find((candidate: any) =>
+    j.TSPropertySignature.check(candidate) && j.Identifier.check(candidate.key) && candidate.key.name === propName
+  );
+
+  if (member?.typeAnnotation) {
+    wrapInPromise(j, member.typeAnnotation);
+  }
+}
+
+function wrapInPromise(j: JSCodeshift, typeAnnotation: any): void {
+  const type = typeAnnotation.typeAnnotation;
+
+  if (j.TSTypeReference.check(type) && j.Identifier.check(type.typeName) && type.typeName.name === 'Promise') {
+    return;
+  }
+
+  typeAnnotation.typeAnnotation = j.tsTypeReference(
+    j.identifier('Promise'),
+    j.tsTypeParameterInstantiation([type])
+  );
+}
@@ -0,0 +1,313 @@
+import path from 'path';
+import jscodeshift, { API, ASTPath, Collection, FileInfo, JSCodeshift, Options } from 'jscodeshift';
+import { Detection, detectAt } from '../analyzers/findings';
+import { detectAsyncProp, makePropAsync } from './async-props';
+import { detectNextConfig, transformNextConfig } from './next-config';
+import { isReference } from './references';
+import { TransformationFile, TransformationPlugin } from './registry';
+import {
+  detectAmp,
+  detectProxyEdgeRuntime,
+  detectRuntimeConfig,
+  detectUnstableCacheApis,
+  renameUnstableCacheApis,
+  reportAmp,
+  reportProxyEdgeRuntime,
+  reportRuntimeConfig
+} from './removed-apis';
+import { detectNextLint, detectTurbopackFlags, removeTurbopackFlags, replaceNextLint } from './scripts';
+
+const MIDDLEWARE_FILE = /^(src\/)?middleware\.(ts|js)$/;
+
+function transformMiddlewareToProxy(fileInfo: FileInfo, api: API, options: Options): string {
+  const j = api.jscodeshift;
+  const root = j(fileInfo.source);
+  const programScope = root.find(j.Program).paths()[0].scope;
+  
+  // Renaming middleware.ts to proxy.ts is handled by the engine (see getTargetPath)
+  
+  // Rename a locally declared middleware function/const and every reference to it
+  const isLocalDeclaration = root.find(j.ImportDeclaration)
+    .find(j.Identifier, { name: 'middleware' })
+    .size() === 0;
+  
+  if (programScope.declares('middleware') && isLocalDeclaration && !programScope.declares('proxy')) {
+    root.find(j.Identifier, { name: 'middleware' })
+      .filter(path => isReference(j, path) && path.scope.lookup('middleware') === programScope)
+      .forEach(path => {
+        path.value.name = 'proxy';
+      });
+  }
+  
+  // Handle re-exports such as export { handler as middleware }
+  root.find(j.ExportSpecifier)
+    .filter(path => path.value.exported.name === 'middleware')
+    .forEach(path => {
+      path.value.exported = j.identifier('proxy');
+    });
+  
+  // Transform the function export
+  root.find(j.ExportDefaultDeclaration)
+    .forEach(path => {
+      const declaration = path.value.declaration;
+      if (j.FunctionDeclaration.check(declaration)) {
+        // Change function name from middleware to proxy
+        if (declaration.id?.name === 'middleware') {
+          declaration.id.name = 'proxy';
+        }
+      } else if (j.FunctionExpression.check(declaration)) {
+        // Handle anonymous function exports
+        const newFunction = j.functionDeclaration(
+          j.identifier('proxy'),
+          declaration.params,
+          declaration.body
+        );
+        path.value.declaration = newFunction;
+      }
+    });
+  
+  return root.toSource();
+}
+
+function updateRevalidateTag(fileInfo: FileInfo, api: API, options: Options): string {
+  const j = api.jscodeshift;
+  const root = j(fileInfo.source);
+  
+  // Find revalidateTag calls and add cacheLife profile
+  root.find(j.CallExpression)
+    .filter(path => {
+      const callee = path.value.callee;
+      return j.Identifier.check(callee) && callee.name === 'revalidateTag';
+    })
+    .forEach(path => {
+      const args = path.value.arguments;
+      if (args.length === 1) {
+        // Add 'max' as second argument for SWR behavior
+        args.push(j.literal('max'));
+      }
+    });
+  
+  return root.toSource();
+}
+
+function updateNextImage(fileInfo: FileInfo, api: API, options: Options): string {
+  const j = api.jscodeshift;
+  const root = j(fileInfo.source);
+  
+  // Replace next/legacy/image with next/image
+  root.find(j.ImportDeclaration)
+    .filter(path => {
+      const source = path.value.source;
+      return j.Literal.check(source) && source.value === 'next/legacy/image';
+    })
+    .forEach(path => {
+      path.value.source = j.literal('next/image');
+    });
+  
+  return root.toSource();
+}
+
+function makeParamsAsync(fileInfo: FileInfo, api: API, options: Options): string {
+  return makePropAsync(fileInfo, api, 'params', options.pageExtensions);
+}
+
+function makeSearchParamsAsync(fileInfo: FileInfo, api: API, options: Options): string {
+  return makePropAsync(fileInfo, api, 'searchParams', options.pageExtensions);
+}
+
+function makeCookiesHeadersAsync(fileInfo: FileInfo, api: API, options: Options): string {
+  const j = api.jscodeshift;
+  const root = j(fileInfo.source);
+  
+  let modified = false;
+  
+  // Find cookies() and headers() calls and await them
+  findSyncHeaderCalls(j, root)
+    .forEach(path => {
+      if (isInAsyncFunction(j, path)) {
+        j(path).replaceWith(j.awaitExpression(path.value));
+        modified = true;
+      } else {
+        const line = (path.value as any).loc?.start.line;
+        api.report(`line ${line}: ${(path.value.callee as any).name}() is called outside an async function; make the caller async and await it`);
+      }
+    });
+  
+  return modified ? root.toSource() : fileInfo.source;
+}
+
+/**
+ * Returns cookies()/headers() calls (imported from next/headers) that are not awaited.
+ */
+function findSyncHeaderCalls(j: JSCodeshift, root: Collection): ASTPath<any>[] {
+  const localNames: string[] = [];
+  
+  // Only touch cookies()/headers() imported from next/headers
+  root.find(j.ImportDeclaration, { source: { value: 'next/headers' } })
+    .forEach(path => {
+      (path.value.specifiers || []).forEach(specifier => {
+        if (j.ImportSpecifier.check(specifier) && ['cookies', 'headers'].includes(specifier.imported.name as string)) {
+          localNames.push((specifier.local?.name || specifier.imported.name) as string);
+        }
+      });
+    });
+  
+  return root.find(j.CallExpression)
+    .filter(path => {
+      const callee = path.value.callee;
+      return j.Identifier.check(callee) && localNames.includes(callee.name) && !j.AwaitExpression.check(path.parent.value);
+    })
+    .paths();
+}
+
+function isInAsyncFunction(j: JSCodeshift, path: ASTPath<any>): boolean {
+  const fn = j(path).closest(j.Function).paths()[0];
+  return !!fn && !!fn.value.async;
+}
+
+function detectMiddleware(file: TransformationFile): Detection[] {
+  // middleware.ts lives in the app root (or its src/ folder), not at the workspace root
+  const appPath = path.relative(file.appRoot || '', file.path).split(path.sep).join('/');
+  if (!MIDDLEWARE_FILE.test(appPath)) {
+    return [];
+  }
+  
+  const j = jscodeshift;
+  const exported = file.root?.find(j.Identifier, { name: 'middleware' })
+    .filter(path => j.FunctionDeclaration.check(path.parent.value) || j.ExportSpecifier.check(path.parent.value))
+    .paths()[0];
+  
+  return [detectAt(exported?.value, 'middleware is renamed to proxy in Next.js 16')];
+}
+
+function detectRevalidateTag(file: TransformationFile): Detection[] {
+  const j = jscodeshift;
+  
+  return (file.root?.find(j.CallExpression, { callee: { type: 'Identifier', name: 'revalidateTag' } }).paths() || [])
+    .filter(path => path.value.arguments.length === 1)
+    .map(path => detectAt(path.value, 'revalidateTag() needs a cacheLife profile as its second argument'));
+}
+
+function detectLegacyImage(file: TransformationFile): Detection[] {
+  const j = jscodeshift;
+  
+  return (file.root?.find(j.ImportDeclaration, { source: { value: 'next/legacy/image' } }).paths() || [])
+    .map(path => detectAt(path.value, 'next/legacy/image is deprecated; use next/image'));
+}
+
+function detectSyncHeaders(file: TransformationFile): Detection[] {
+  if (!file.root) {
+    return [];
+  }
+  
+  const j = jscodeshift;
+  
+  return findSyncHeaderCalls(j, file.root).map(path => detectAt(
+    path.value,
+    `${path.value.callee.name}() returns a Promise in Next.js 16 and must be awaited`,
+    { severity: 'error', fixable: isInAsyncFunction(j, path) }
+  ));
+}
+
+function updateNextConfig(fileInfo: FileInfo, api: API, options: Options): string {
+  return transformNextConfig(fileInfo, api);
+}
+
+export const builtinTransformations: TransformationPlugin[] = [
+  {
+    id: 'middleware-to-proxy',
+    description: 'Convert middleware.ts to proxy.ts',
+    detect: detectMiddleware,
+    transform: transformMiddlewareToProxy,
+    effort: 10
+  },
+  {
+    id: 'update-next-config',
+    description: 'Update next.config for Next.js 16',
+    detect: detectNextConfig,
+    transform: updateNextConfig,
+    effort: 10
+  },
+  {
+    id: 'update-revalidate-tag',
+    description: 'Update revalidateTag calls with cacheLife profile',
+    detect: detectRevalidateTag,
+    transform: updateRevalidateTag,
+    effort: 5
+  },
+  {
+    id: 'update-next-image',
+    description: 'Update next/image imports and usage',
+    detect: detectLegacyImage,
+    transform: updateNextImage,
+    effort: 5
+  },
+  {
+    id: 'make-params-async',
+    description: 'Make params usage async',
+    // Only App Router segment files receive params as props
+    detect: file => detectAsyncProp(file, 'params'),
+    transform: makeParamsAsync,
+    effort: 5
+  },
+  {
+    id: 'make-search-params-async',
+    description: 'Make searchParams usage async',
+    detect: file => detectAsyncProp(file, 'searchParams'),
+    transform: makeSearchParamsAsync,
+    effort: 5
+  },
+  {
+    id: 'make-cookies-headers-async',
+    description: 'Make cookies/headers usage async',
+    detect: detectSyncHeaders,
+    transform: makeCookiesHeadersAsync,
+    effort: 10
+  },
+  {
+    id: 'rename-unstable-cache-apis',
+    description: 'Rename unstable_cacheLife/unstable_cacheTag to cacheLife/cacheTag',
+    detect: detectUnstableCacheApis,
+    transform: renameUnstableCacheApis,
+    effort: 2
+  },
+  {
+    id: 'remove-amp',
+    description: 'Flag next/amp imports and AMP page configs',
+    detect: detectAmp,
+    transform: reportAmp,
+    effort: 60,
+    fixable: false
+  },
+  {
+    id: 'remove-runtime-config',
+    description: 'Flag getConfig() from next/config',
+    detect: detectRuntimeConfig,
+    transform: reportRuntimeConfig,
+    effort: 30,
+    fixable: false
+  },
+  {
+    id: 'remove-proxy-edge-runtime',
+    description: 'Flag the edge runtime setting in proxy',
+    detect: detectProxyEdgeRuntime,
+    transform: reportProxyEdgeRuntime,
+    dependsOn: ['middleware-to-proxy'],
+    effort: 15,
+    fixable: false
+  },
+  {
+    id: 'replace-next-lint',
+    description: 'Replace next lint scripts with the ESLint CLI',
+    detect: detectNextLint,
+    transform: replaceNextLint,
+    effort: 10
+  },
+  {
+    id: 'remove-turbopack-flags',
+    description: 'Drop --turbopack from next dev/build scripts',
+    detect: detectTurbopackFlags,
+    transform: removeTurbopackFlags,
+    effort: 1
+  }
+];
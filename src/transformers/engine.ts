@@ -1,93 +1,288 @@
 import fs from 'fs-extra';
 import path from 'path';
-import jscodeshift, { API, FileInfo, Options } from 'jscodeshift';
+import jscodeshift, { API, Collection, FileInfo, JSCodeshift, Options } from 'jscodeshift';
+import { createTwoFilesPatch } from 'diff';
 import { ProjectAnalysis, FileToTransform } from '../analyzers/compatibility';
+import { TransformationRegistry } from './registry';
+import type { WorkerPool, WorkerResult } from './pool';
+import type { NextApp } from '../analyzers/workspace';
+import { checkSyntax, firstDifferentLine, TypeChecker, ValidationError } from './validation';
+import { formatChangedRanges, PrintOptions, resolvePrintOptions } from './formatting';
+import { createSlotDefault, SlotDefaultFile, SlotDefaultKind } from './slots';
+import { MigrationJournal } from '../utils/journal';
 
 export interface MigrationResult {
   successful: number;
   failed: number;
   changes: Change[];
   errors: Error[];
+  manualActions: ManualAction[];
+  // Files with findings that the transforms left unchanged and had no manual action for
+  skipped: string[];
 }
 
 export interface Change {
   file: string;
   description: string;
   type: 'transformation' | 'creation' | 'deletion';
+  // Transformation (or other migration step) that made the change
+  transformation?: string;
+  // Path a created file was renamed from
+  source?: string;
 }
 
+// Recorded as the transformation of generated parallel route slot defaults
+export const SLOT_DEFAULTS_STEP = 'slot-defaults';
+
 export interface Error {
   file: string;
   message: string;
   line?: number;
 }
 
-export class MigrationEngine {
-  private transformations: Map<string, (fileInfo: FileInfo, api: API, options: Options) => string> = new Map();
+export interface ManualAction {
+  file: string;
+  transformation: string;
+  message: string;
+}
 
-  constructor() {
-    this.initializeTransformations();
-  }
+export interface MigrationOptions {
+  // Type-check changed files against the project's tsconfig before writing them
+  typecheck?: boolean;
+  // Analyze and transform files on worker threads
+  pool?: WorkerPool;
+  // Reuse cached analysis results for unchanged files
+  cache?: boolean;
+  // Read the analysis cache without writing it, e.g. on --dry-run
+  readOnlyCache?: boolean;
+  // Format the changed ranges with the project's Prettier install
+  format?: boolean;
+  // The app to migrate; defaults to the app at the working directory
+  app?: NextApp;
+  // What generated default.js files for parallel route slots do
+  slotDefault?: SlotDefaultKind;
+  // Record every write ahead of time, so an interrupted run can be resumed or undone
+  journal?: MigrationJournal;
+  // Write nothing unless every file transforms; output is staged and committed together
+  atomic?: boolean;
+}
+
+// Writes a file relative to the project root, or removes it when content is null
+type WriteOutput = (file: string, content: string | null) => Promise<void>;
 
-  private initializeTransformations(): void {
-    this.transformations.set('middleware-to-proxy', this.transformMiddlewareToProxy.bind(this));
-    this.transformations.set('update-revalidate-tag', this.updateRevalidateTag.bind(this));
-    this.transformations.set('add-cache-life-profile', this.addCacheLifeProfile.bind(this));
-    this.transformations.set('update-next-image', this.updateNextImage.bind(this));
-    this.transformations.set('make-params-async', this.makeParamsAsync.bind(this));
-    this.transformations.set('make-search-params-async', this.makeSearchParamsAsync.bind(this));
-    this.transformations.set('make-cookies-headers-async', this.makeCookiesHeadersAsync.bind(this));
+export interface PrepareOptions {
+  format?: boolean;
+}
+
+export interface PreparedFile {
+  file: FileToTransform;
+  filePath: string;
+  targetFile: string;
+  source: string;
+  output: string;
+  applied: string[];
+  manualActions: ManualAction[];
+}
+
+export interface FileDiff {
+  file: string;
+  transformations: string[];
+  patch: string;
+  manualActions: ManualAction[];
+  // Set when the file could not be transformed
+  error?: Error;
+}
+
+export class MigrationEngine {
+  private registry: TransformationRegistry;
+
+  constructor(registry: TransformationRegistry = TransformationRegistry.withBuiltins()) {
+    this.registry = registry;
   }
 
-  async previewChanges(): Promise<Change[]> {
-    const analyzer = new (await import('../analyzers/compatibility')).ProjectAnalyzer();
-    const analysis = await analyzer.analyze();
+  async previewChanges(options: MigrationOptions = {}): Promise<FileDiff[]> {
+    const analysis = await this.analyze(options);
+    const files = analysis.filesToTransform.filter(file => fs.pathExistsSync(path.join(process.cwd(), file.path)));
     
-    const changes: Change[] = [];
+    const diffs: FileDiff[] = [];
     
-    for (const file of analysis.filesToTransform) {
-      for (const transformation of file.transformations) {
-        changes.push({
-          file: file.path,
-          description: this.getTransformationDescription(transformation),
-          type: 'transformation'
+    for (const [index, prepared] of (await this.prepareFiles(files, options)).entries()) {
+      if (prepared.error) {
+        diffs.push({
+          file: files[index].path,
+          transformations: [],
+          patch: '',
+          manualActions: [],
+          error: { file: files[index].path, ...prepared.error }
         });
+        continue;
       }
+      
+      const { file, targetFile, source, output } = prepared.value;
+      const unchanged = output === source && targetFile === file.path;
+      
+      // Skip files the transforms leave untouched and have nothing to flag
+      if (unchanged && prepared.value.manualActions.length === 0) {
+        continue;
+      }
+      
+      diffs.push({
+        file: file.path,
+        transformations: prepared.value.applied,
+        patch: unchanged ? '' : createFilePatch(file.path, targetFile, source, output),
+        manualActions: prepared.value.manualActions
+      });
     }
     
-    return changes;
+    for (const slotDefault of await this.createSlotDefaults(analysis, options)) {
+      diffs.push({
+        file: slotDefault.file,
+        transformations: [],
+        patch: this.createNewFilePatch(slotDefault.file, slotDefault.content),
+        manualActions: []
+      });
+    }
+    
+    return diffs;
   }
 
-  async migrate(): Promise<MigrationResult> {
-    const analyzer = new (await import('../analyzers/compatibility')).ProjectAnalyzer();
-    const analysis = await analyzer.analyze();
+  async migrate(options: MigrationOptions = {}): Promise<MigrationResult> {
+    const analysis = await this.analyze(options);
     
     const result: MigrationResult = {
       successful: 0,
       failed: 0,
       changes: [],
-      errors: []
+      errors: [],
+      manualActions: [],
+      skipped: []
     };
     
-    for (const file of analysis.filesToTransform) {
+    // Transform and validate everything in memory before anything is written
+    let prepared: PreparedFile[] = [];
+    const files = analysis.filesToTransform;
+    
+    // Results come back in input order, so the merge is deterministic
+    (await this.prepareFiles(files, options)).forEach((output, index) => {
+      if (output.error) {
+        result.failed++;
+        result.errors.push({ file: files[index].path, ...output.error });
+      } else {
+        prepared.push(output.value);
+      }
+    });
+    
+    if (options.typecheck) {
+      prepared = this.typecheck(prepared, result);
+    }
+    
+    // Atomic runs stage every write and commit them together, which needs a journal
+    const journal = options.journal || (options.atomic ? await MigrationJournal.begin() : undefined);
+    const write: WriteOutput = journal
+      ? (file, content) => journal.write(file, content, { stage: options.atomic })
+      : (file, content) => content === null ? fs.remove(path.join(process.cwd(), file)) : fs.writeFile(path.join(process.cwd(), file), content);
+    
+    for (const file of options.atomic && result.failed > 0 ? [] : prepared) {
+      // Only files that are actually rewritten count as migrated
+      if (file.output === file.source && file.targetFile === file.file.path) {
+        result.manualActions.push(...file.manualActions);
+        if (file.manualActions.length === 0) {
+          result.skipped.push(file.file.path);
+        }
+        continue;
+      }
+      
       try {
-        const fileResult = await this.transformFile(file);
+        const changes = await this.writeFile(file, write);
         result.successful++;
-        result.changes.push(...fileResult.changes);
+        result.changes.push(...changes);
+        result.manualActions.push(...file.manualActions);
       } catch (error) {
         result.failed++;
         result.errors.push({
-          file: file.path,
+          file: file.file.path,
           message: error.message
         });
       }
     }
     
+    for (const slotDefault of options.atomic && result.failed > 0 ? [] : await this.createSlotDefaults(analysis, options)) {
+      const filePath = path.join(process.cwd(), slotDefault.file);
+      if (await fs.pathExists(filePath)) {
+        continue;
+      }
+      
+      await write(slotDefault.file, slotDefault.content);
+      result.successful++;
+      result.changes.push({
+        file: slotDefault.file,
+        description: `Added default for parallel route slot ${path.basename(path.dirname(slotDefault.file))}`,
+        type: 'creation',
+        transformation: SLOT_DEFAULTS_STEP
+      });
+    }
+    
+    if (options.atomic) {
+      // All or nothing: one failed file means the staged output is thrown away
+      if (result.failed > 0) {
+        await journal.discard();
+        Object.assign(result, { successful: 0, changes: [], manualActions: [], skipped: [] });
+      } else {
+        await journal.commit();
+      }
+    }
+    if (journal && !options.journal) {
+      await journal.finish();
+    }
+    
     return result;
   }
 
-  private async transformFile(fileToTransform: FileToTransform): Promise<{ changes: Change[] }> {
-    const changes: Change[] = [];
+  /**
+   * Lists every path a migration would modify, create, rename or delete, so they can be
+   * backed up before anything is written.
+   */
+  async plannedPaths(options: MigrationOptions = {}): Promise<string[]> {
+    const analysis = await this.analyze(options);
+    const paths = analysis.filesToTransform.flatMap(file => [file.path, this.getTargetPath(file)]);
+    
+    for (const slotDefault of await this.createSlotDefaults(analysis, options)) {
+      paths.push(slotDefault.file);
+    }
+    
+    return Array.from(new Set(paths));
+  }
+
+  private async analyze(options: MigrationOptions): Promise<ProjectAnalysis> {
+    const analyzer = new (await import('../analyzers/compatibility')).ProjectAnalyzer(this.registry, { pool: options.pool, cache: options.cache, readOnlyCache: options.readOnlyCache, app: options.app });
+    return analyzer.analyze();
+  }
+
+  private async createSlotDefaults(analysis: ProjectAnalysis, options: MigrationOptions): Promise<SlotDefaultFile[]> {
+    const files: SlotDefaultFile[] = [];
+    for (const slot of analysis.missingSlotDefaults) {
+      files.push(await createSlotDefault(slot, analysis.app, options.slotDefault));
+    }
+    return files;
+  }
+
+  private async prepareFiles(files: FileToTransform[], options: MigrationOptions): Promise<WorkerResult<PreparedFile>[]> {
+    if (options.pool && this.registry.canRunInWorkers()) {
+      return options.pool.run<PreparedFile>(files.map(file => ({ type: 'prepare' as const, file, format: options.format })));
+    }
+    
+    const results: WorkerResult<PreparedFile>[] = [];
+    for (const file of files) {
+      try {
+        results.push({ value: await this.prepareFile(file, { format: options.format }) });
+      } catch (error) {
+        results.push({ error: { message: error.message, line: error.line } });
+      }
+    }
+    return results;
+  }
+
+  async prepareFile(fileToTransform: FileToTransform, options: PrepareOptions = {}): Promise<PreparedFile> {
     const filePath = path.join(process.cwd(), fileToTransform.path);
     
     if (!await fs.pathExists(filePath)) {
@@ -95,194 +290,218 @@ export class MigrationEngine {
     }
     
     const source = await fs.readFile(filePath, 'utf-8');
+    const printOptions = await resolvePrintOptions(filePath);
+    const output = this.applyTransformations(fileToTransform, filePath, source, printOptions);
+    
+    if (output.source !== source) {
+      checkSyntax(output.source, filePath);
+      
+      // A second pass over the output must be a no-op, otherwise the transforms do not converge
+      const secondPass = this.applyTransformations({ ...fileToTransform, transformations: output.applied }, filePath, output.source, printOptions);
+      if (secondPass.source !== output.source) {
+        throw new ValidationError(
+          `Transformations did not converge: a second run of ${secondPass.applied.join(', ')} changed the output again`,
+          firstDifferentLine(output.source, secondPass.source)
+        );
+      }
+      
+      if (options.format) {
+        output.source = await formatChangedRanges(filePath, source, output.source);
+      }
+    }
+    
+    return {
+      file: fileToTransform,
+      filePath,
+      targetFile: this.getTargetPath(fileToTransform),
+      source,
+      output: output.source,
+      applied: output.applied,
+      manualActions: output.manualActions
+    };
+  }
+
+  private typecheck(prepared: PreparedFile[], result: MigrationResult): PreparedFile[] {
+    const checker = TypeChecker.load();
+    if (!checker) {
+      return prepared;
+    }
+    
+    const changed = prepared.filter(file => file.output !== file.source && /\.(ts|tsx|mts|cts)$/.test(file.targetFile));
+    const issues = checker.check(changed.map(file => ({
+      path: path.join(process.cwd(), file.targetFile),
+      originalPath: file.filePath,
+      source: file.output
+    })));
+    
+    return prepared.filter(file => {
+      const fileIssues = issues.get(path.join(process.cwd(), file.targetFile));
+      if (!fileIssues) {
+        return true;
+      }
+      
+      result.failed++;
+      fileIssues.forEach(issue => {
+        result.errors.push({
+          file: file.file.path,
+          message: `Type check failed: ${issue.message}`,
+          line: issue.line
+        });
+      });
+      return false;
+    });
+  }
+
+  private async writeFile(prepared: PreparedFile, write: WriteOutput): Promise<Change[]> {
+    const changes: Change[] = [];
+    const { file: fileToTransform, targetFile, source, output } = prepared;
+    
+    for (const transformation of prepared.applied) {
+      changes.push({
+        file: fileToTransform.path,
+        description: this.registry.getDescription(transformation),
+        type: 'transformation',
+        transformation
+      });
+    }
+    
+    if (targetFile !== fileToTransform.path) {
+      // Move the file, e.g. middleware.ts -> proxy.ts
+      const targetPath = path.join(process.cwd(), targetFile);
+      if (await fs.pathExists(targetPath)) {
+        throw new Error(`Cannot rename ${fileToTransform.path}: ${targetFile} already exists`);
+      }
+      
+      await write(targetFile, output);
+      await write(fileToTransform.path, null);
+      
+      changes.push({
+        file: targetFile,
+        description: `Created from ${fileToTransform.path}`,
+        type: 'creation',
+        transformation: 'middleware-to-proxy',
+        source: fileToTransform.path
+      });
+      changes.push({
+        file: fileToTransform.path,
+        description: `Renamed to ${targetFile}`,
+        type: 'deletion',
+        transformation: 'middleware-to-proxy'
+      });
+    } else if (output !== source) {
+      // Write transformed file
+      await write(fileToTransform.path, output);
+    }
+    
+    return changes;
+  }
+
+  private applyTransformations(fileToTransform: FileToTransform, filePath: string, source: string, printOptions: PrintOptions = {}): { source: string; applied: string[]; manualActions: ManualAction[] } {
     let transformedSource = source;
+    const applied: string[] = [];
+    const manualActions: ManualAction[] = [];
+    const j = this.createParser(printOptions);
     
     for (const transformation of fileToTransform.transformations) {
-      const transformer = this.transformations.get(transformation);
-      if (transformer) {
+      const plugin = this.registry.get(transformation);
+      if (plugin) {
         const fileInfo: FileInfo = {
           path: filePath,
           source: transformedSource
         };
         
-        const api = jscodeshift.withParser('tsx') as any;
-        const options: Options = {};
+        // Transforms flag what they cannot fix safely through api.report()
+        const report = (message: string) => {
+          manualActions.push({ file: fileToTransform.path, transformation, message });
+        };
+        const api: API = { jscodeshift: j, j, stats: () => {}, report };
+        const options: Options = {
+          printOptions,
+          appRoot: fileToTransform.appRoot,
+          pageExtensions: fileToTransform.pageExtensions
+        };
         
         try {
-          transformedSource = transformer(fileInfo, api, options);
-          changes.push({
-            file: fileToTransform.path,
-            description: this.getTransformationDescription(transformation),
-            type: 'transformation'
-          });
+          const result = plugin.transform(fileInfo, api, options);
+          if (typeof result === 'string' && result !== transformedSource) {
+            applied.push(transformation);
+            transformedSource = result;
+          }
         } catch (error) {
           throw new Error(`Transformation ${transformation} failed: ${error instanceof Error ? error.message : String(error)}`);
         }
       }
     }
     
-    // Write transformed file
-    if (transformedSource !== source) {
-      await fs.writeFile(filePath, transformedSource);
-    }
-    
-    return { changes };
+    return { source: transformedSource, applied, manualActions };
   }
 
-  // Transformation implementations
-  private transformMiddlewareToProxy(fileInfo: FileInfo, api: API, options: Options): string {
-    const j = api.jscodeshift;
-    const root = j(fileInfo.source);
-    
-    // Rename middleware.ts to proxy.ts
-    // This is handled at the file system level
-    
-    // Transform the function export
-    root.find(j.ExportDefaultDeclaration)
-      .forEach(path => {
-        const declaration = path.value.declaration;
-        if (j.FunctionDeclaration.check(declaration)) {
-          // Change function name from middleware to proxy
-          if (declaration.id?.name === 'middleware') {
-            declaration.id.name = 'proxy';
-          }
-        } else if (j.FunctionExpression.check(declaration)) {
-          // Handle anonymous function exports
-          const newFunction = j.functionDeclaration(
-            j.identifier('proxy'),
-            declaration.params,
-            declaration.body
-          );
-          path.value.declaration = newFunction;
-        }
-      });
+  /**
+   * Returns a tsx jscodeshift that hands a tree printed back unchanged to the next transform
+   * instead of reparsing it, so a file is parsed once until a transform actually rewrites it.
+   * Rewritten output is always reparsed, as recast only reprints cleanly from a fresh parse.
+   * The project's print options apply to every toSource() call unless a transform overrides them.
+   */
+  private createParser(printOptions: PrintOptions): JSCodeshift {
+    const parser = jscodeshift.withParser('tsx');
+    let printed: { source: string; program: any } | undefined;
     
-    return root.toSource();
-  }
-
-  private updateRevalidateTag(fileInfo: FileInfo, api: API, options: Options): string {
-    const j = api.jscodeshift;
-    const root = j(fileInfo.source);
-    
-    // Find revalidateTag calls and add cacheLife profile
-    root.find(j.CallExpression)
-      .filter(path => {
-        const callee = path.value.callee;
-        return j.Identifier.check(callee) && callee.name === 'revalidateTag';
-      })
-      .forEach(path => {
-        const args = path.value.arguments;
-        if (args.length === 1) {
-          // Add 'max' as second argument for SWR behavior
-          args.push(j.literal('max'));
-        }
-      });
-    
-    return root.toSource();
-  }
-
-  private addCacheLifeProfile(fileInfo: FileInfo, api: API, options: Options): string {
-    // This is handled by updateRevalidateTag
-    return fileInfo.source;
-  }
-
-  private updateNextImage(fileInfo: FileInfo, api: API, options: Options): string {
-    const j = api.jscodeshift;
-    const root = j(fileInfo.source);
-    
-    // Replace next/legacy/image with next/image
-    root.find(j.ImportDeclaration)
-      .filter(path => {
-        const source = path.value.source;
-        return j.Literal.check(source) && source.value === 'next/legacy/image';
-      })
-      .forEach(path => {
-        path.value.source = j.literal('next/image');
-      });
+    const j = ((source: any, options?: any) => {
+      if (typeof source === 'string' && printed && printed.source === source) {
+        // A fresh collection over the same nodes so scopes are rebuilt
+        const program = printed.program;
+        printed = undefined;
+        return parser(program);
+      }
+      
+      const root: Collection<any> = parser(source, options);
+      const toSource = root.toSource.bind(root);
+      root.toSource = (sourceOptions?: any) => {
+        const output = toSource({ ...printOptions, ...sourceOptions });
+        printed = output === source ? { source: output, program: root.get().value } : undefined;
+        return output;
+      };
+      return root;
+    }) as JSCodeshift;
     
-    return root.toSource();
+    return Object.assign(j, parser);
   }
 
-  private makeParamsAsync(fileInfo: FileInfo, api: API, options: Options): string {
-    const j = api.jscodeshift;
-    const root = j(fileInfo.source);
-    
-    // Find params usage and make it async
-    root.find(j.Identifier)
-      .filter(path => path.value.name === 'params')
-      .forEach(path => {
-        const parent = path.parent;
-        if (j.MemberExpression.check(parent.value)) {
-          // Replace params.something with (await params).something
-          const memberExpression = j.memberExpression(
-            j.awaitExpression(j.identifier('params')),
-            parent.value.property,
-            parent.value.computed
-          );
-          j(parent).replaceWith(memberExpression);
-        }
-      });
+  private getTargetPath(fileToTransform: FileToTransform): string {
+    if (!fileToTransform.transformations.includes('middleware-to-proxy')) {
+      return fileToTransform.path;
+    }
     
-    return root.toSource();
-  }
-
-  private makeSearchParamsAsync(fileInfo: FileInfo, api: API, options: Options): string {
-    const j = api.jscodeshift;
-    const root = j(fileInfo.source);
-    
-    // Find searchParams usage and make it async
-    root.find(j.Identifier)
-      .filter(path => path.value.name === 'searchParams')
-      .forEach(path => {
-        const parent = path.parent;
-        if (j.MemberExpression.check(parent.value)) {
-          // Replace searchParams.something with (await searchParams).something
-          const memberExpression = j.memberExpression(
-            j.awaitExpression(j.identifier('searchParams')),
-            parent.value.property,
-            parent.value.computed
-          );
-          j(parent).replaceWith(memberExpression);
-        }
-      });
+    const dir = path.dirname(fileToTransform.path);
+    const name = path.basename(fileToTransform.path).replace(/^middleware\./, 'proxy.');
     
-    return root.toSource();
+    return dir === '.' ? name : path.join(dir, name);
   }
 
-  private makeCookiesHeadersAsync(fileInfo: FileInfo, api: API, options: Options): string {
-    const j = api.jscodeshift;
-    const root = j(fileInfo.source);
-    
-    // Find cookies() and headers() calls and make them async
-    root.find(j.CallExpression)
-      .filter(path => {
-        const callee = path.value.callee;
-        if (j.Identifier.check(callee)) {
-          return callee.name === 'cookies' || callee.name === 'headers';
-        }
-        return false;
-      })
-      .forEach(path => {
-        const callee = path.value.callee;
-        if (j.Identifier.check(callee)) {
-          path.value.callee = j.awaitExpression(callee);
-        }
-      });
+  private createNewFilePatch(file: string, content: string): string {
+    // Diffed against /dev/null so `git apply` creates the file
+    const filePath = file.split(path.sep).join('/');
+    const patch = createTwoFilesPatch('/dev/null', `b/${filePath}`, '', content);
     
-    return root.toSource();
+    return `diff --git a/${filePath} b/${filePath}\nnew file mode 100644\n${patch.slice(patch.indexOf('\n') + 1)}`;
   }
+}
 
-  private getTransformationDescription(transformation: string): string {
-    const descriptions: Record<string, string> = {
-      'middleware-to-proxy': 'Convert middleware.ts to proxy.ts',
-      'update-revalidate-tag': 'Update revalidateTag calls with cacheLife profile',
-      'add-cache-life-profile': 'Add cacheLife profile to revalidateTag',
-      'update-next-image': 'Update next/image imports and usage',
-      'make-params-async': 'Make params usage async',
-      'make-search-params-async': 'Make searchParams usage async',
-      'make-cookies-headers-async': 'Make cookies/headers usage async'
-    };
-    
-    return descriptions[transformation] || transformation;
+/**
+ * Diffs a file (renamed to `targetFile` when they differ) as a git-style patch.
+ */
+export function createFilePatch(file: string, targetFile: string, before: string, after: string): string {
+  // Emit git-style headers so the patch can be fed to `git apply`
+  const oldPath = file.split(path.sep).join('/');
+  const newPath = targetFile.split(path.sep).join('/');
+  const patch = createTwoFilesPatch(`a/${oldPath}`, `b/${newPath}`, before, after);
+  const body = patch.slice(patch.indexOf('\n') + 1);
+  
+  let header = `diff --git a/${oldPath} b/${newPath}\n`;
+  if (oldPath !== newPath) {
+    header += `rename from ${oldPath}\nrename to ${newPath}\n`;
   }
+  
+  // Pure renames carry no hunks, so drop the empty ---/+++ lines
+  return before === after ? header : header + body;
 }
@@ -0,0 +1,349 @@
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+import { diffLines } from 'diff';
+import { glob } from 'glob';
+
+/**
+ * The subset of recast's print options that mirror Prettier/EditorConfig settings.
+ */
+export interface PrintOptions {
+  quote?: 'single' | 'double';
+  tabWidth?: number;
+  useTabs?: boolean;
+  trailingComma?: boolean;
+  wrapColumn?: number;
+  objectCurlySpacing?: boolean;
+  arrowParensAlways?: boolean;
+}
+
+// In Prettier's lookup order
+const PRETTIER_CONFIG_FILES = [
+  '.prettierrc',
+  '.prettierrc.json',
+  '.prettierrc.yaml',
+  '.prettierrc.yml',
+  '.prettierrc.json5',
+  '.prettierrc.js',
+  '.prettierrc.ts',
+  '.prettierrc.mjs',
+  '.prettierrc.mts',
+  '.prettierrc.cjs',
+  '.prettierrc.cts',
+  'prettier.config.js',
+  'prettier.config.ts',
+  'prettier.config.mjs',
+  'prettier.config.mts',
+  'prettier.config.cjs',
+  'prettier.config.cts',
+  '.prettierrc.toml'
+];
+
+// Config files read without a local Prettier install; the others need Prettier's own loader
+const PLAIN_CONFIG_FILE = /(^|[\\/])(\.prettierrc(\.json)?|\.prettierrc\.c?js|prettier\.config\.c?js)$/;
+
+// Prettier's own defaults apply to any option a config file leaves out
+const PRETTIER_DEFAULTS = {
+  singleQuote: false,
+  trailingComma: 'all',
+  tabWidth: 2,
+  useTabs: false,
+  printWidth: 80,
+  bracketSpacing: true,
+  arrowParens: 'always'
+};
+
+/**
+ * Loads the project's own Prettier install, if there is one.
+ */
+export function loadPrettier(cwd: string = process.cwd()): any | undefined {
+  try {
+    return createRequire(path.join(cwd, 'package.json'))('prettier');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolves the print options recast should use for a file from the project's Prettier
+ * config and .editorconfig. Uses Prettier's resolver when Prettier is installed locally.
+ */
+export async function resolvePrintOptions(filePath: string, cwd: string = process.cwd()): Promise<PrintOptions> {
+  const prettier = loadPrettier(cwd);
+  let config: Record<string, any> | null = null;
+
+  if (prettier) {
+    try {
+      config = await prettier.resolveConfig(filePath, { editorconfig: true });
+    } catch {
+      // Reported up front by findPrettierConfigProblems()
+      config = readEditorConfig(filePath, cwd) || null;
+    }
+  } else {
+    const prettierConfig = readPrettierConfig(filePath, cwd);
+    const editorConfig = readEditorConfig(filePath, cwd);
+    // Matches Prettier: explicit Prettier settings win over .editorconfig
+    config = prettierConfig || editorConfig ? { ...editorConfig, ...prettierConfig } : null;
+    if (prettierConfig) {
+      config = { ...PRETTIER_DEFAULTS, ...config };
+    }
+  }
+
+  return config ? toPrintOptions(config) : {};
+}
+
+/**
+ * Formats only the ranges the migration changed with the project's Prettier install.
+ * Returns the output untouched when Prettier is unavailable or fails.
+ */
+export async function formatChangedRanges(filePath: string, before: string, after: string, cwd: string = process.cwd()): Promise<string> {
+  const prettier = loadPrettier(cwd);
+  if (!prettier || before === after) {
+    return after;
+  }
+
+  try {
+    const config = (await prettier.resolveConfig(filePath, { editorconfig: true })) || {};
+    let formatted = after;
+
+    // Work from the end of the file so earlier offsets stay valid
+    for (const [rangeStart, rangeEnd] of changedRanges(before, after).reverse()) {
+      formatted = await prettier.format(formatted, { ...config, filepath: filePath, rangeStart, rangeEnd });
+    }
+
+    return formatted;
+  } catch {
+    return after;
+  }
+}
+
+function changedRanges(before: string, after: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let offset = 0;
+
+  for (const part of diffLines(before, after)) {
+    if (part.added) {
+      ranges.push([offset, offset + part.value.length]);
+    }
+    if (!part.removed) {
+      offset += part.value.length;
+    }
+  }
+
+  return ranges;
+}
+
+function toPrintOptions(config: Record<string, any>): PrintOptions {
+  const options: PrintOptions = {};
+
+  if (config.singleQuote !== undefined) {
+    options.quote = config.singleQuote ? 'single' : 'double';
+  }
+  if (config.tabWidth !== undefined) {
+    options.tabWidth = Number(config.tabWidth);
+  }
+  if (config.useTabs !== undefined) {
+    options.useTabs = !!config.useTabs;
+  }
+  if (config.trailingComma !== undefined) {
+    options.trailingComma = config.trailingComma !== 'none';
+  }
+  if (config.printWidth !== undefined) {
+    options.wrapColumn = Number(config.printWidth);
+  }
+  if (config.bracketSpacing !== undefined) {
+    options.objectCurlySpacing = !!config.bracketSpacing;
+  }
+  if (config.arrowParens !== undefined) {
+    options.arrowParensAlways = config.arrowParens === 'always';
+  }
+
+  return options;
+}
+
+function readPrettierConfig(filePath: string, cwd: string): Record<string, any> | undefined {
+  for (const dir of ancestors(path.dirname(filePath), cwd)) {
+    for (const name of PRETTIER_CONFIG_FILES) {
+      const configPath = path.join(dir, name);
+      if (fs.existsSync(configPath)) {
+        // Configs that cannot be read fall back to .editorconfig; findPrettierConfigProblems() reports them
+        try {
+          return loadConfigFile(configPath);
+        } catch {
+          return undefined;
+        }
+      }
+    }
+
+    const packageJsonPath = path.join(dir, 'package.json');
+    if (fs.existsSync(packageJsonPath)) {
+      try {
+        const config = readPackageConfig(packageJsonPath);
+        if (config) {
+          return config;
+        }
+      } catch {
+        return undefined;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads a Prettier config file without Prettier: JSON (`.prettierrc`, `.prettierrc.json`)
+ * and CommonJS configs only. Throws for anything else, which needs a local Prettier install.
+ */
+function loadConfigFile(configPath: string): Record<string, any> {
+  if (!PLAIN_CONFIG_FILE.test(configPath)) {
+    throw new Error('only JSON and CommonJS configs can be read without a local Prettier install');
+  }
+  if (/\.c?js$/.test(configPath)) {
+    return loadModule(configPath, configPath);
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch {
+    throw new Error('not valid JSON; YAML configs need a local Prettier install');
+  }
+}
+
+/**
+ * Reads the `prettier` key of a package.json; a string names a shared config package.
+ */
+function readPackageConfig(packageJsonPath: string): Record<string, any> | undefined {
+  const config = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8')).prettier;
+  return typeof config === 'string' ? loadModule(packageJsonPath, config) : config;
+}
+
+function loadModule(fromPath: string, request: string): Record<string, any> {
+  try {
+    const loaded = createRequire(fromPath)(request);
+    return loaded?.default || loaded;
+  } catch (error) {
+    throw new Error(request === fromPath ? error.message : `${request}: ${error.message}`);
+  }
+}
+
+/**
+ * Lists the project's Prettier configs that cannot be read, so the caller can warn once
+ * before formatting falls back to .editorconfig for the files they cover.
+ */
+export async function findPrettierConfigProblems(cwd: string = process.cwd()): Promise<string[]> {
+  const prettier = loadPrettier(cwd);
+  const configs = await glob(PRETTIER_CONFIG_FILES.map(name => `**/${name}`), { cwd, dot: true, ignore: ['**/node_modules/**'] });
+  const manifests = await glob('**/package.json', { cwd, ignore: ['**/node_modules/**'] });
+  const problems: string[] = [];
+
+  for (const config of configs.sort()) {
+    const configPath = path.join(cwd, config);
+    try {
+      if (prettier) {
+        await prettier.resolveConfig(path.join(path.dirname(configPath), 'index.ts'), { config: configPath });
+      } else {
+        loadConfigFile(configPath);
+      }
+    } catch (error) {
+      problems.push(`${config}: ${error.message}`);
+    }
+  }
+
+  if (!prettier) {
+    for (const manifest of manifests.sort()) {
+      try {
+        readPackageConfig(path.join(cwd, manifest));
+      } catch (error) {
+        problems.push(`${manifest}: ${error.message}`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+function readEditorConfig(filePath: string, cwd: string): Record<string, any> | undefined {
+  const properties: Record<string, string> = {};
+  let found = false;
+
+  // Nearer files take precedence, so apply them last
+  const files: string[] = [];
+  for (const dir of ancestors(path.dirname(filePath), cwd)) {
+    const configPath = path.join(dir, '.editorconfig');
+    if (fs.existsSync(configPath)) {
+      files.unshift(configPath);
+      if (/^\s*root\s*=\s*true\s*$/m.test(fs.readFileSync(configPath, 'utf-8'))) {
+        break;
+      }
+    }
+  }
+
+  for (const configPath of files) {
+    const relativePath = path.relative(path.dirname(configPath), filePath).split(path.sep).join('/');
+    let matches = false;
+
+    fs.readFileSync(configPath, 'utf-8').split('\n').forEach(rawLine => {
+      const line = rawLine.replace(/[#;].*$/, '').trim();
+      const section = line.match(/^\[(.+)\]$/);
+
+      if (section) {
+        matches = editorConfigGlob(section[1]).test(relativePath);
+      } else if (matches && line.includes('=')) {
+        const [key, value] = line.split('=').map(part => part.trim().toLowerCase());
+        properties[key] = value;
+        found = true;
+      }
+    });
+  }
+
+  if (!found) {
+    return undefined;
+  }
+
+  const config: Record<string, any> = {};
+  if (properties.indent_style) {
+    config.useTabs = properties.indent_style === 'tab';
+  }
+  const width = Number(properties.indent_size === 'tab' ? properties.tab_width : properties.indent_size || properties.tab_width);
+  if (width) {
+    config.tabWidth = width;
+  }
+  if (properties.max_line_length && properties.max_line_length !== 'off') {
+    config.printWidth = Number(properties.max_line_length);
+  }
+  if (properties.quote_type === 'single' || properties.quote_type === 'double') {
+    config.singleQuote = properties.quote_type === 'single';
+  }
+
+  return config;
+}
+
+function editorConfigGlob(pattern: string): RegExp {
+  const source = pattern
+    .replace(/[.+^$()|\\]/g, '\\$&')
+    .replace(/\{([^}]+)\}/g, (_, options: string) => `(${options.split(',').join('|')})`)
+    .replace(/\*\*/g, '\u0000')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]')
+    .replace(/\u0000/g, '.*');
+
+  // Patterns without a slash match the file name in any directory
+  return pattern.includes('/')
+    ? new RegExp(`^${source.replace(/^\//, '')}$`)
+    : new RegExp(`(^|/)${source}$`);
+}
+
+function ancestors(dir: string, cwd: string): string[] {
+  const dirs: string[] = [];
+  let current = path.resolve(dir);
+  const root = path.resolve(cwd);
+
+  while (true) {
+    dirs.push(current);
+    if (current === root || path.dirname(current) === current) {
+      return dirs;
+    }
+    current = path.dirname(current);
+  }
+}
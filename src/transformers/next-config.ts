@@ -0,0 +1,426 @@
+import jscodeshift, { API, Collection, FileInfo, JSCodeshift } from 'jscodeshift';
+import { Detection, detectAt } from '../analyzers/findings';
+import type { TransformationFile } from './registry';
+
+// devIndicators options removed in Next.js 16; buildActivityPosition became position
+const REMOVED_DEV_INDICATORS = ['appIsrStatus', 'buildActivity', 'buildActivityPosition'];
+
+/**
+ * Returns true when a file is a Next.js config file (next.config.js/.mjs/.cjs/.ts).
+ */
+export function isNextConfigFile(filePath: string): boolean {
+  return /(^|[\\/])next\.config\.(js|mjs|cjs|ts|mts)$/.test(filePath);
+}
+
+/**
+ * Applies the Next.js 16 config changes to every config object exported by a next.config file.
+ * Handles object literals, `(phase) => ({...})` functions and plugin wrappers such as
+ * `withBundleAnalyzer(nextConfig)`, for both ESM and CommonJS exports.
+ */
+export function transformNextConfig(fileInfo: FileInfo, api: API): string {
+  const j = api.jscodeshift;
+  const root = j(fileInfo.source);
+  const configs = findConfigObjects(j, root);
+
+  let modified = false;
+
+  for (const config of configs) {
+    if (updateConfigObject(j, config, api.report)) {
+      modified = true;
+    }
+  }
+
+  return modified ? root.toSource() : fileInfo.source;
+}
+
+/**
+ * Returns every option in the exported config objects that transformNextConfig changes or reports.
+ */
+export function detectNextConfig(file: TransformationFile): Detection[] {
+  const root = isNextConfigFile(file.path) ? file.root : undefined;
+
+  if (!root) {
+    return [];
+  }
+
+  const j = jscodeshift;
+  const detections: Detection[] = [];
+
+  for (const config of findConfigObjects(j, root)) {
+    const experimental = getProperty(j, config, 'experimental');
+
+    if (experimental && j.ObjectExpression.check(experimental.value)) {
+      for (const flag of ['ppr', 'dynamicIO']) {
+        const property = getProperty(j, experimental.value, flag);
+        if (property) {
+          detections.push(detectAt(property, `experimental.${flag} was replaced by cacheComponents`, { severity: 'error' }));
+        }
+      }
+
+      const turbo = getProperty(j, experimental.value, 'turbo');
+      if (turbo) {
+        detections.push(detectAt(turbo, 'experimental.turbo moved to the top-level turbopack option', {
+          fixable: !getProperty(j, config, 'turbopack')
+        }));
+      }
+
+      const amp = getProperty(j, experimental.value, 'amp');
+      if (amp) {
+        detections.push(detectAt(amp, 'experimental.amp was removed along with AMP support', { severity: 'error' }));
+      }
+    }
+
+    const images = getProperty(j, config, 'images');
+    const domains = images && j.ObjectExpression.check(images.value) ? getProperty(j, images.value, 'domains') : undefined;
+    if (domains) {
+      detections.push(detectAt(domains, 'images.domains is deprecated in favor of images.remotePatterns', {
+        fixable: canConvertDomains(j, images.value, domains)
+      }));
+    }
+
+    for (const key of ['eslint', 'amp']) {
+      const property = getProperty(j, config, key);
+      if (property) {
+        detections.push(detectAt(property, `The ${key} option was removed in Next.js 16`));
+      }
+    }
+
+    const devIndicators = getProperty(j, config, 'devIndicators');
+    if (devIndicators && j.ObjectExpression.check(devIndicators.value)) {
+      for (const key of REMOVED_DEV_INDICATORS) {
+        const property = getProperty(j, devIndicators.value, key);
+        if (property) {
+          detections.push(detectAt(property, key === 'buildActivityPosition'
+            ? 'devIndicators.buildActivityPosition was renamed to devIndicators.position'
+            : `devIndicators.${key} was removed in Next.js 16`));
+        }
+      }
+    }
+
+    for (const key of ['serverRuntimeConfig', 'publicRuntimeConfig']) {
+      const property = getProperty(j, config, key);
+      if (property) {
+        detections.push(detectAt(property, `${key} was removed in Next.js 16; read environment variables directly`, {
+          severity: 'error',
+          fixable: false
+        }));
+      }
+    }
+  }
+
+  return detections;
+}
+
+/**
+ * Reads a literal `pageExtensions` array from a next.config source, if there is one.
+ */
+export function readPageExtensions(source: string): string[] | undefined {
+  const j = jscodeshift.withParser('tsx');
+  let root: Collection;
+
+  try {
+    root = j(source);
+  } catch {
+    return undefined;
+  }
+
+  for (const config of findConfigObjects(j, root)) {
+    const property = getProperty(j, config, 'pageExtensions');
+    const elements = j.ArrayExpression.check(property?.value) ? property.value.elements : [];
+
+    if (elements.length > 0 && elements.every((element: any) => typeof element?.value === 'string')) {
+      return elements.map((element: any) => element.value.replace(/^\./, ''));
+    }
+  }
+
+  return undefined;
+}
+
+function findConfigObjects(j: JSCodeshift, root: Collection): any[] {
+  const exported: any[] = [];
+
+  // export default config
+  root.find(j.ExportDefaultDeclaration).forEach(exportPath => {
+    exported.push(exportPath.value.declaration);
+  });
+
+  // module.exports = config
+  root.find(j.AssignmentExpression, {
+    left: {
+      type: 'MemberExpression',
+      object: { name: 'module' },
+      property: { name: 'exports' }
+    }
+  }).forEach(assignmentPath => {
+    exported.push(assignmentPath.value.right);
+  });
+
+  const configs: any[] = [];
+  const visited = new Set<any>();
+
+  exported.forEach(node => resolveConfig(j, root, node, configs, visited));
+
+  return configs;
+}
+
+function resolveConfig(j: JSCodeshift, root: Collection, node: any, configs: any[], visited: Set<any>): void {
+  if (!node || visited.has(node)) {
+    return;
+  }
+  visited.add(node);
+
+  if (j.ObjectExpression.check(node)) {
+    configs.push(node);
+    return;
+  }
+
+  // const nextConfig: NextConfig = {...} satisfies NextConfig
+  if (j.TSAsExpression.check(node) || j.TSSatisfiesExpression.check(node) || j.TSNonNullExpression.check(node)) {
+    resolveConfig(j, root, node.expression, configs, visited);
+    return;
+  }
+
+  if (j.Identifier.check(node)) {
+    root.find(j.VariableDeclarator, { id: { name: node.name } }).forEach(declaratorPath => {
+      resolveConfig(j, root, declaratorPath.value.init, configs, visited);
+    });
+    root.find(j.FunctionDeclaration, { id: { name: node.name } }).forEach(fnPath => {
+      resolveConfig(j, root, fnPath.value, configs, visited);
+    });
+    return;
+  }
+
+  // withBundleAnalyzer(nextConfig), withPlugins([...], nextConfig); options passed to the
+  // plugin factory itself (the callee) are not Next config
+  if (j.CallExpression.check(node)) {
+    node.arguments.forEach((argument: any) => resolveConfig(j, root, argument, configs, visited));
+    return;
+  }
+
+  // (phase, { defaultConfig }) => ({...})
+  if (j.ArrowFunctionExpression.check(node) || j.FunctionExpression.check(node) || j.FunctionDeclaration.check(node)) {
+    if (!j.BlockStatement.check(node.body)) {
+      resolveConfig(j, root, node.body, configs, visited);
+      return;
+    }
+
+    j(node.body)
+      .find(j.ReturnStatement)
+      // Skip returns of nested callbacks; paths here are rooted at the function body
+      .filter(returnPath => !closestFunction(returnPath))
+      .forEach(returnPath => resolveConfig(j, root, returnPath.value.argument, configs, visited));
+    return;
+  }
+
+  if (j.AwaitExpression.check(node)) {
+    resolveConfig(j, root, node.argument, configs, visited);
+  }
+}
+
+function closestFunction(path: any): any {
+  let current = path.parent;
+
+  while (current) {
+    if (['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression'].includes(current.value.type)) {
+      return current.value;
+    }
+    current = current.parent;
+  }
+
+  return undefined;
+}
+
+function updateConfigObject(j: JSCodeshift, config: any, report: (message: string) => void): boolean {
+  let modified = false;
+  const experimental = getProperty(j, config, 'experimental');
+
+  if (experimental && j.ObjectExpression.check(experimental.value)) {
+    const experimentalConfig = experimental.value;
+
+    // experimental.ppr / experimental.dynamicIO -> cacheComponents
+    for (const flag of ['ppr', 'dynamicIO']) {
+      const property = getProperty(j, experimentalConfig, flag);
+      if (!property) {
+        continue;
+      }
+
+      removeProperty(experimentalConfig, property);
+      modified = true;
+
+      if (isLiteralValue(j, property.value, false)) {
+        continue;
+      }
+
+      if (flag === 'ppr' && isLiteralValue(j, property.value, 'incremental')) {
+        report('experimental.ppr: \'incremental\' was replaced by cacheComponents; remove `export const experimental_ppr` from your routes');
+      }
+
+      if (!getProperty(j, config, 'cacheComponents')) {
+        const value = isLiteralValue(j, property.value, 'incremental') ? j.booleanLiteral(true) : property.value;
+        insertBefore(config, experimental, j.objectProperty(j.identifier('cacheComponents'), value));
+      }
+    }
+
+    // experimental.turbo -> turbopack
+    const turbo = getProperty(j, experimentalConfig, 'turbo');
+    if (turbo) {
+      if (getProperty(j, config, 'turbopack')) {
+        report('Both experimental.turbo and turbopack are set; merge experimental.turbo into turbopack manually');
+      } else {
+        removeProperty(experimentalConfig, turbo);
+        insertBefore(config, experimental, j.objectProperty(j.identifier('turbopack'), turbo.value));
+        modified = true;
+      }
+    }
+
+    // experimental.amp
+    const experimentalAmp = getProperty(j, experimentalConfig, 'amp');
+    if (experimentalAmp) {
+      removeProperty(experimentalConfig, experimentalAmp);
+      modified = true;
+    }
+
+    if (experimentalConfig.properties.length === 0) {
+      removeProperty(config, experimental);
+    }
+  }
+
+  // images.domains -> images.remotePatterns
+  const images = getProperty(j, config, 'images');
+  if (images && j.ObjectExpression.check(images.value)) {
+    const domains = getProperty(j, images.value, 'domains');
+
+    if (domains) {
+      if (convertDomains(j, images.value, domains)) {
+        modified = true;
+      } else {
+        report('images.domains is deprecated; convert it to images.remotePatterns manually');
+      }
+    }
+  }
+
+  // eslint and AMP options were removed
+  for (const key of ['eslint', 'amp']) {
+    const property = getProperty(j, config, key);
+    if (property) {
+      removeProperty(config, property);
+      modified = true;
+    }
+  }
+
+  const devIndicators = getProperty(j, config, 'devIndicators');
+  if (devIndicators && j.ObjectExpression.check(devIndicators.value) && updateDevIndicators(j, devIndicators.value, report)) {
+    devIndicators.value = compactObject(j, devIndicators.value);
+    modified = true;
+  }
+
+  for (const key of ['serverRuntimeConfig', 'publicRuntimeConfig']) {
+    if (getProperty(j, config, key)) {
+      report(`${key} was removed in Next.js 16; read environment variables directly (NEXT_PUBLIC_ prefix for client values)`);
+    }
+  }
+
+  return modified;
+}
+
+function updateDevIndicators(j: JSCodeshift, devIndicators: any, report: (message: string) => void): boolean {
+  let modified = false;
+
+  const position = getProperty(j, devIndicators, 'buildActivityPosition');
+  if (position) {
+    if (getProperty(j, devIndicators, 'position')) {
+      removeProperty(devIndicators, position);
+    } else {
+      position.key = j.identifier('position');
+    }
+    modified = true;
+  }
+
+  for (const key of ['appIsrStatus', 'buildActivity']) {
+    const property = getProperty(j, devIndicators, key);
+    if (!property) {
+      continue;
+    }
+
+    // Hiding one indicator is no longer possible, only hiding all of them
+    if (isLiteralValue(j, property.value, false)) {
+      report(`devIndicators.${key}: false was removed; set devIndicators: false to hide the dev indicator`);
+    }
+
+    removeProperty(devIndicators, property);
+    modified = true;
+  }
+
+  return modified;
+}
+
+function canConvertDomains(j: JSCodeshift, images: any, domains: any): boolean {
+  const remotePatterns = getProperty(j, images, 'remotePatterns');
+
+  return j.ArrayExpression.check(domains.value)
+    && domains.value.elements.every((element: any) => j.StringLiteral.check(element) || (j.Literal.check(element) && typeof element.value === 'string'))
+    && (!remotePatterns || j.ArrayExpression.check(remotePatterns.value));
+}
+
+function convertDomains(j: JSCodeshift, images: any, domains: any): boolean {
+  if (!canConvertDomains(j, images, domains)) {
+    return false;
+  }
+
+  const hostnames = domains.value.elements;
+  const patterns = hostnames.map((hostname: any) =>
+    parseExpression(j, `{ hostname: ${hostname.extra?.raw ?? `'${hostname.value}'`} }`)
+  );
+
+  const remotePatterns = getProperty(j, images, 'remotePatterns');
+
+  if (remotePatterns) {
+    remotePatterns.value.elements.push(...patterns);
+    removeProperty(images, domains);
+  } else {
+    domains.key = j.identifier('remotePatterns');
+    domains.value = j.arrayExpression(patterns);
+  }
+
+  return true;
+}
+
+export function getProperty(j: JSCodeshift, object: any, name: string): any {
+  return object.properties.find((property: any) =>
+    (j.ObjectProperty.check(property) || j.Property.check(property))
+      && !property.computed
+      && ((j.Identifier.check(property.key) && property.key.name === name)
+        || ((j.StringLiteral.check(property.key) || j.Literal.check(property.key)) && (property.key as any).value === name))
+  );
+}
+
+function removeProperty(object: any, property: any): void {
+  object.properties.splice(object.properties.indexOf(property), 1);
+}
+
+function insertBefore(object: any, reference: any, property: any): void {
+  const index = object.properties.indexOf(reference);
+  object.properties.splice(index === -1 ? object.properties.length : index, 0, property);
+}
+
+function isLiteralValue(j: JSCodeshift, node: any, value: unknown): boolean {
+  return (j.BooleanLiteral.check(node) || j.StringLiteral.check(node) || j.Literal.check(node)) && (node as any).value === value;
+}
+
+/**
+ * Returns a one-line copy of an edited object literal that was written on one line, as recast
+ * otherwise reprints it across several lines.
+ */
+export function compactObject(j: JSCodeshift, object: any): any {
+  if (!object.loc || object.loc.start.line !== object.loc.end.line) {
+    return object;
+  }
+
+  const properties = object.properties.map((property: any) => j(property).toSource());
+  return parseExpression(j, properties.length > 0 ? `{ ${properties.join(', ')} }` : '{}');
+}
+
+function parseExpression(j: JSCodeshift, code: string): any {
+  // Parsed rather than built so recast keeps small literals on one line
+  return j(`const value = ${code};`).find(j.VariableDeclarator).paths()[0].value.init;
+}
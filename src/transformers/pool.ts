@@ -0,0 +1,146 @@
+import os from 'os';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { FileToTransform } from '../analyzers/compatibility';
+import { NextApp } from '../analyzers/workspace';
+
+export type WorkerTask =
+  | { type: 'analyze'; file: string; app?: NextApp }
+  | { type: 'prepare'; file: FileToTransform; format?: boolean };
+
+export interface WorkerResult<T = any> {
+  // Exactly one of value or error is set
+  value?: T;
+  error?: { message: string; line?: number };
+}
+
+// Posted once by each worker when it has loaded its registry
+export interface WorkerReady {
+  ready: true;
+}
+
+export interface WorkerPoolOptions {
+  // Number of worker threads (defaults to the number of CPUs minus one)
+  jobs?: number;
+  // Per-file timeout in milliseconds, from when the worker has started; a worker that
+  // exceeds it is terminated
+  timeout?: number;
+}
+
+export const DEFAULT_FILE_TIMEOUT = 30000;
+// Time a new worker gets to load its registry, e.g. plugins that pull in large dependencies
+const WORKER_START_TIMEOUT = 60000;
+
+export function getDefaultJobs(): number {
+  return Math.max(1, os.cpus().length - 1);
+}
+
+/**
+ * Runs analysis and transformation tasks on worker threads. Each worker loads its own
+ * transformation registry, so plugins must be loadable from the project's config; registries
+ * with plugins registered in-process are run without the pool.
+ */
+export class WorkerPool {
+  private jobs: number;
+  private timeout: number;
+  private idle: Worker[] = [];
+  private workers: Set<Worker> = new Set();
+  private started: WeakSet<Worker> = new WeakSet();
+
+  constructor(options: WorkerPoolOptions = {}) {
+    this.jobs = Math.max(1, options.jobs || getDefaultJobs());
+    this.timeout = options.timeout || DEFAULT_FILE_TIMEOUT;
+  }
+
+  /**
+   * Runs every task and returns the results in task order, regardless of completion order.
+   */
+  async run<T>(tasks: WorkerTask[]): Promise<WorkerResult<T>[]> {
+    const results: WorkerResult<T>[] = new Array(tasks.length);
+    let next = 0;
+
+    const drain = async (): Promise<void> => {
+      while (next < tasks.length) {
+        const index = next++;
+        results[index] = await this.runTask<T>(tasks[index]);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this.jobs, tasks.length) }, drain));
+    return results;
+  }
+
+  async close(): Promise<void> {
+    const workers = Array.from(this.workers);
+    this.workers.clear();
+    this.idle = [];
+
+    await Promise.all(workers.map(worker => worker.terminate()));
+  }
+
+  private runTask<T>(task: WorkerTask): Promise<WorkerResult<T>> {
+    const worker = this.idle.pop() || this.createWorker();
+
+    return new Promise(resolve => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        worker.off('message', onMessage);
+        worker.off('error', onError);
+        worker.off('exit', onExit);
+      };
+
+      const discard = () => {
+        this.workers.delete(worker);
+        worker.terminate().catch(() => undefined);
+      };
+
+      const onMessage = (message: WorkerResult<T> | WorkerReady) => {
+        if ('ready' in message) {
+          // The file's time starts once the worker has loaded, so cold starts do not count
+          this.started.add(worker);
+          clearTimeout(timer);
+          timer = startTimer(`Timed out after ${this.timeout}ms`, this.timeout);
+          return;
+        }
+
+        const result = message;
+        cleanup();
+        this.idle.push(worker);
+        resolve(result);
+      };
+
+      const onError = (error: Error) => {
+        cleanup();
+        discard();
+        resolve({ error: { message: `Worker crashed: ${error.message}` } });
+      };
+
+      const onExit = (code: number) => {
+        cleanup();
+        this.workers.delete(worker);
+        resolve({ error: { message: `Worker exited unexpectedly with code ${code}` } });
+      };
+
+      // Transforms are synchronous, so terminating the thread is the only way to stop one
+      const startTimer = (message: string, timeout: number) => setTimeout(() => {
+        cleanup();
+        discard();
+        resolve({ error: { message } });
+      }, timeout);
+      let timer = this.started.has(worker)
+        ? startTimer(`Timed out after ${this.timeout}ms`, this.timeout)
+        : startTimer(`Worker did not start within ${WORKER_START_TIMEOUT}ms`, WORKER_START_TIMEOUT);
+
+      worker.on('message', onMessage);
+      worker.on('error', onError);
+      worker.on('exit', onExit);
+      worker.postMessage(task);
+    });
+  }
+
+  private createWorker(): Worker {
+    const worker = new Worker(path.join(__dirname, 'worker.js'));
+    this.workers.add(worker);
+    return worker;
+  }
+}
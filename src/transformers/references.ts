@@ -0,0 +1,46 @@
+import { API, Collection, JSCodeshift } from 'jscodeshift';
+
+/**
+ * Returns true when an identifier refers to a binding, as opposed to a property key,
+ * member property, JSX attribute name or import specifier name.
+ */
+export function isReference(j: API['jscodeshift'], path: any): boolean {
+  const parent = path.parent.value;
+
+  // Non-computed property keys and member properties are not bindings
+  if ((j.MemberExpression.check(parent) || j.OptionalMemberExpression.check(parent)) && parent.property === path.value) {
+    return parent.computed;
+  }
+  if ((j.Property.check(parent) || j.ObjectProperty.check(parent) || j.ClassProperty.check(parent) || j.MethodDefinition.check(parent) || j.TSPropertySignature.check(parent)) && parent.key === path.value) {
+    return parent.computed;
+  }
+  if (j.TSQualifiedName.check(parent) && parent.right === path.value) {
+    return false;
+  }
+
+  // JSX attribute names, `<a.b>` members and intrinsic elements such as `<html>` are not bindings
+  if (j.JSXAttribute.check(parent) && parent.name === path.value) {
+    return false;
+  }
+  if (j.JSXMemberExpression.check(parent) && parent.property === path.value) {
+    return false;
+  }
+  if (j.JSXIdentifier.check(path.value) && /^[a-z]/.test(path.value.name) && !j.JSXMemberExpression.check(parent)) {
+    return false;
+  }
+
+  return !j.ImportSpecifier.check(parent) && !j.ImportDefaultSpecifier.check(parent);
+}
+
+/**
+ * Renames every reference to a top-level binding, leaving shadowing bindings alone.
+ */
+export function renameReferences(j: JSCodeshift, root: Collection, from: string, to: string): void {
+  const programScope = root.find(j.Program).paths()[0].scope;
+
+  root.find(j.Identifier, { name: from })
+    .filter(path => isReference(j, path) && path.scope.lookup(from) === programScope)
+    .forEach(path => {
+      path.value.name = to;
+    });
+}
@@ -0,0 +1,210 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { createRequire } from 'module';
+import { API, Collection, FileInfo, Options } from 'jscodeshift';
+import type { Detection } from '../analyzers/findings';
+import { builtinTransformations } from './builtin';
+
+export interface TransformationFile {
+  path: string;
+  content: string;
+  // Parsed with the tsx parser on first access; undefined when the file does not parse
+  readonly root?: Collection;
+  // Root of the Next.js app the file belongs to, relative to the working directory
+  appRoot?: string;
+  // The app's pageExtensions from next.config
+  pageExtensions?: string[];
+}
+
+export interface TransformationPlugin {
+  id: string;
+  description: string;
+  // Returns the locations the transform would change (or true to flag the whole file);
+  // the transform only runs on files with at least one detection
+  detect: (file: TransformationFile) => boolean | Detection[];
+  // A jscodeshift transform; returning null/undefined leaves the file unchanged
+  transform: (fileInfo: FileInfo, api: API, options: Options) => string | null | undefined;
+  // Transforms that must run before this one when both apply to a file
+  dependsOn?: string[];
+  // Minutes to resolve one finding by hand, used for effort estimates
+  effort?: number;
+  // Whether the transform fixes its findings; false for rules that only report (default true)
+  fixable?: boolean;
+  // Bump when detection changes, so cached analysis results are discarded; without it the
+  // cache is keyed on the source of `detect`
+  version?: string;
+}
+
+export interface MigratorConfig {
+  plugins?: Array<string | TransformationPlugin>;
+}
+
+export const CONFIG_FILES = [
+  'nextjs16-migrator.config.js',
+  'nextjs16-migrator.config.cjs',
+  'nextjs16-migrator.config.json'
+];
+
+const PLUGIN_PACKAGE_PATTERN = /^(@[^/]+\/)?nextjs16-migrator-plugin-/;
+
+export class TransformationRegistry {
+  private plugins: Map<string, TransformationPlugin> = new Map();
+  // Ids of plugins registered in-process rather than loaded from the built-ins or project config
+  private inProcess: Set<string> = new Set();
+
+  /**
+   * Creates a registry with the built-in transforms plus every plugin configured for the project.
+   */
+  static async load(cwd: string = process.cwd()): Promise<TransformationRegistry> {
+    const registry = TransformationRegistry.withBuiltins();
+    await registry.loadPlugins(cwd);
+    return registry;
+  }
+
+  static withBuiltins(): TransformationRegistry {
+    const registry = new TransformationRegistry();
+    builtinTransformations.forEach(plugin => registry.add(plugin));
+    return registry;
+  }
+
+  /**
+   * Adds a plugin in-process. Worker threads cannot load such plugins, so a registry holding
+   * one runs in-process instead of on the worker pool.
+   */
+  register(plugin: TransformationPlugin): void {
+    this.add(plugin);
+    this.inProcess.add(plugin.id);
+  }
+
+  /**
+   * Whether worker threads, which load the built-ins and the project's configured plugins
+   * themselves, end up with the same plugins as this registry.
+   */
+  canRunInWorkers(): boolean {
+    return this.inProcess.size === 0;
+  }
+
+  private add(plugin: TransformationPlugin): void {
+    if (!plugin || typeof plugin.id !== 'string' || !plugin.id) {
+      throw new Error('Transformation plugins must have an id');
+    }
+    if (typeof plugin.detect !== 'function' || typeof plugin.transform !== 'function') {
+      throw new Error(`Transformation ${plugin.id} must provide detect() and transform() functions`);
+    }
+    if (this.plugins.has(plugin.id)) {
+      throw new Error(`Transformation ${plugin.id} is already registered`);
+    }
+
+    this.plugins.set(plugin.id, plugin);
+  }
+
+  get(id: string): TransformationPlugin | undefined {
+    return this.plugins.get(id);
+  }
+
+  list(): TransformationPlugin[] {
+    return Array.from(this.plugins.values());
+  }
+
+  getDescription(id: string): string {
+    return this.plugins.get(id)?.description || id;
+  }
+
+  /**
+   * Orders transform ids so that every transform runs after the ones it depends on.
+   * Dependencies that do not apply to the file are ignored.
+   */
+  sort(ids: string[]): string[] {
+    const sorted: string[] = [];
+    const visiting = new Set<string>();
+
+    const visit = (id: string, chain: string[]) => {
+      if (sorted.includes(id)) {
+        return;
+      }
+      if (visiting.has(id)) {
+        throw new Error(`Circular transformation dependency: ${[...chain, id].join(' -> ')}`);
+      }
+
+      visiting.add(id);
+      for (const dependency of this.plugins.get(id)?.dependsOn || []) {
+        if (ids.includes(dependency)) {
+          visit(dependency, [...chain, id]);
+        }
+      }
+      visiting.delete(id);
+
+      sorted.push(id);
+    };
+
+    ids.forEach(id => visit(id, []));
+    return sorted;
+  }
+
+  /**
+   * Loads plugins listed in the project's config file and any installed
+   * `nextjs16-migrator-plugin-*` packages.
+   */
+  async loadPlugins(cwd: string = process.cwd()): Promise<void> {
+    const projectRequire = createRequire(path.join(cwd, 'package.json'));
+    const entries: Array<string | TransformationPlugin> = [];
+
+    const config = await this.loadConfig(cwd, projectRequire);
+    entries.push(...(config.plugins || []));
+
+    const packageJsonPath = path.join(cwd, 'package.json');
+    if (await fs.pathExists(packageJsonPath)) {
+      const packageJson = await fs.readJson(packageJsonPath);
+      const dependencies = Object.keys({ ...packageJson.dependencies, ...packageJson.devDependencies });
+
+      for (const dependency of dependencies) {
+        if (PLUGIN_PACKAGE_PATTERN.test(dependency) && !entries.includes(dependency)) {
+          entries.push(dependency);
+        }
+      }
+    }
+
+    for (const entry of entries) {
+      if (typeof entry !== 'string') {
+        this.add(entry);
+        continue;
+      }
+
+      let exported: any;
+      try {
+        // Relative specifiers in the config are resolved from the project root
+        const specifier = entry.startsWith('.') ? path.resolve(cwd, entry) : entry;
+        exported = projectRequire(specifier);
+      } catch (error) {
+        throw new Error(`Failed to load plugin ${entry}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      this.getExportedPlugins(exported).forEach(plugin => this.add(plugin));
+    }
+  }
+
+  private async loadConfig(cwd: string, projectRequire: NodeRequire): Promise<MigratorConfig> {
+    for (const file of CONFIG_FILES) {
+      const configPath = path.join(cwd, file);
+      if (await fs.pathExists(configPath)) {
+        const config = file.endsWith('.json') ? await fs.readJson(configPath) : projectRequire(configPath);
+        return config?.default || config || {};
+      }
+    }
+
+    return {};
+  }
+
+  private getExportedPlugins(exported: any): TransformationPlugin[] {
+    const value = exported?.default || exported;
+
+    if (Array.isArray(value)) {
+      return value;
+    }
+    if (Array.isArray(value?.plugins)) {
+      return value.plugins;
+    }
+
+    return [value];
+  }
+}
@@ -0,0 +1,192 @@
+import path from 'path';
+import jscodeshift, { API, Collection, FileInfo, JSCodeshift, Options } from 'jscodeshift';
+import { Detection, detectAt } from '../analyzers/findings';
+import { getProperty } from './next-config';
+import { isReference, renameReferences } from './references';
+import type { TransformationFile } from './registry';
+
+// Cache APIs that were stabilized in Next.js 16
+const STABLE_CACHE_APIS: Record<string, string> = {
+  unstable_cacheLife: 'cacheLife',
+  unstable_cacheTag: 'cacheTag'
+};
+
+const PROXY_FILE = /^(src\/)?(middleware|proxy)\.(ts|js)$/;
+const EDGE_RUNTIMES = ['edge', 'experimental-edge'];
+
+export function detectUnstableCacheApis(file: TransformationFile): Detection[] {
+  if (!file.root) {
+    return [];
+  }
+
+  return findUnstableCacheImports(jscodeshift, file.root).map(specifier => {
+    const name = specifier.imported.name;
+    return detectAt(specifier, `${name} is stable in Next.js 16; import ${STABLE_CACHE_APIS[name]} instead`);
+  });
+}
+
+/**
+ * Imports the stable cacheLife/cacheTag names. Calls are renamed too unless the stable
+ * name is already taken, at the top level or in any scope a call sits in, in which case
+ * the old name is kept as an alias.
+ */
+export function renameUnstableCacheApis(fileInfo: FileInfo, api: API, options: Options): string {
+  const j = api.jscodeshift;
+  const root = j(fileInfo.source);
+  const specifiers = findUnstableCacheImports(j, root);
+
+  root.find(j.ImportSpecifier)
+    .filter(path => specifiers.includes(path.value))
+    .forEach(path => {
+      const name = path.value.imported.name as string;
+      const stable = STABLE_CACHE_APIS[name];
+      let local = (path.value.local?.name as string) || name;
+
+      if (local === name && !isNameTaken(j, root, name, stable)) {
+        renameReferences(j, root, name, stable);
+        local = stable;
+      }
+
+      // A new node, so recast does not keep a redundant `as cacheLife` from the old alias
+      path.replace(j.importSpecifier(j.identifier(stable), local === stable ? null : j.identifier(local)));
+    });
+
+  return specifiers.length > 0 ? root.toSource() : fileInfo.source;
+}
+
+export function detectAmp(file: TransformationFile): Detection[] {
+  if (!file.root) {
+    return [];
+  }
+
+  const j = jscodeshift;
+  const imports = file.root.find(j.ImportDeclaration, { source: { value: 'next/amp' } }).paths()
+    .map(path => detectAt(path.value, 'next/amp was removed along with AMP support in Next.js 16', { severity: 'error', fixable: false }));
+  const configs = findAmpConfigs(j, file.root)
+    .map(property => detectAt(property, 'AMP pages (config.amp) are no longer supported in Next.js 16', { severity: 'error', fixable: false }));
+
+  return [...imports, ...configs];
+}
+
+/**
+ * AMP has no Next.js 16 equivalent, so AMP pages are only reported for a manual rewrite.
+ */
+export function reportAmp(fileInfo: FileInfo, api: API, options: Options): string {
+  const j = api.jscodeshift;
+  const root = j(fileInfo.source);
+
+  root.find(j.ImportDeclaration, { source: { value: 'next/amp' } }).forEach(path => {
+    api.report(`line ${path.value.loc?.start.line}: next/amp was removed; drop useAmp()/withAmp() and serve the page as regular HTML`);
+  });
+  findAmpConfigs(j, root).forEach(property => {
+    api.report(`line ${property.loc?.start.line}: AMP pages are no longer supported; remove config.amp and rebuild the page without AMP components`);
+  });
+
+  return fileInfo.source;
+}
+
+export function detectRuntimeConfig(file: TransformationFile): Detection[] {
+  const j = jscodeshift;
+
+  return (file.root?.find(j.ImportDeclaration, { source: { value: 'next/config' } }).paths() || [])
+    .map(path => detectAt(path.value, 'next/config (getConfig) was removed in Next.js 16; read environment variables directly', {
+      severity: 'error',
+      fixable: false
+    }));
+}
+
+/**
+ * Runtime config values move to environment variables, which needs a decision per value.
+ */
+export function reportRuntimeConfig(fileInfo: FileInfo, api: API, options: Options): string {
+  const j = api.jscodeshift;
+
+  j(fileInfo.source).find(j.ImportDeclaration, { source: { value: 'next/config' } }).forEach(path => {
+    api.report(`line ${path.value.loc?.start.line}: replace getConfig() with process.env (use the NEXT_PUBLIC_ prefix for values read in the browser)`);
+  });
+
+  return fileInfo.source;
+}
+
+export function detectProxyEdgeRuntime(file: TransformationFile): Detection[] {
+  const appPath = path.relative(file.appRoot || '', file.path).split(path.sep).join('/');
+  if (!PROXY_FILE.test(appPath) || !file.root) {
+    return [];
+  }
+
+  return findEdgeRuntimes(jscodeshift, file.root).map(node =>
+    detectAt(node, 'proxy always runs on the Node.js runtime; the edge runtime setting is not allowed', { severity: 'error', fixable: false })
+  );
+}
+
+/**
+ * Reports `export const runtime = 'edge'` and `config.runtime` in the proxy file. Dropping
+ * them moves the proxy to Node.js, which changes its behaviour, so this is left to the user.
+ */
+export function reportProxyEdgeRuntime(fileInfo: FileInfo, api: API, options: Options): string {
+  const j = api.jscodeshift;
+
+  findEdgeRuntimes(j, j(fileInfo.source)).forEach(node => {
+    api.report(`line ${node.loc?.start.line}: proxy always runs on the Node.js runtime; check the proxy works on Node.js and remove the edge runtime setting, or keep it as middleware to stay on the edge runtime`);
+  });
+
+  return fileInfo.source;
+}
+
+/**
+ * Whether renaming the top-level `from` binding to `to` would clash with a `to` declared at
+ * the top level or shadowing it where one of the references sits.
+ */
+function isNameTaken(j: JSCodeshift, root: Collection, from: string, to: string): boolean {
+  const programScope = root.find(j.Program).paths()[0].scope;
+  if (programScope.declares(to)) {
+    return true;
+  }
+
+  return root.find(j.Identifier, { name: from })
+    .filter(path => isReference(j, path) && path.scope.lookup(from) === programScope)
+    .some(path => path.scope.lookup(to) !== null);
+}
+
+function findUnstableCacheImports(j: JSCodeshift, root: Collection): any[] {
+  const specifiers: any[] = [];
+
+  root.find(j.ImportDeclaration, { source: { value: 'next/cache' } }).forEach(path => {
+    (path.value.specifiers || []).forEach(specifier => {
+      if (j.ImportSpecifier.check(specifier) && STABLE_CACHE_APIS[specifier.imported.name as string]) {
+        specifiers.push(specifier);
+      }
+    });
+  });
+
+  return specifiers;
+}
+
+function findExportedConst(j: JSCodeshift, root: Collection, name: string): any[] {
+  return root.find(j.ExportNamedDeclaration)
+    .filter(path => j.VariableDeclaration.check(path.value.declaration))
+    .find(j.VariableDeclarator, { id: { type: 'Identifier', name } })
+    .filter(path => path.parent.parent.value.type === 'ExportNamedDeclaration')
+    .nodes();
+}
+
+function findAmpConfigs(j: JSCodeshift, root: Collection): any[] {
+  return findExportedConst(j, root, 'config')
+    .filter(declarator => j.ObjectExpression.check(declarator.init))
+    .map(declarator => getProperty(j, declarator.init, 'amp'))
+    .filter(Boolean);
+}
+
+function findEdgeRuntimes(j: JSCodeshift, root: Collection): any[] {
+  const runtimes = findExportedConst(j, root, 'runtime').filter(declarator => isEdgeRuntime(declarator.init));
+  const configs = findExportedConst(j, root, 'config')
+    .filter(declarator => j.ObjectExpression.check(declarator.init))
+    .map(declarator => getProperty(j, declarator.init, 'runtime'))
+    .filter(property => property && isEdgeRuntime(property.value));
+
+  return [...runtimes, ...configs];
+}
+
+function isEdgeRuntime(node: any): boolean {
+  return typeof node?.value === 'string' && EDGE_RUNTIMES.includes(node.value);
+}
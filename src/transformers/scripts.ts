@@ -0,0 +1,213 @@
+import path from 'path';
+import { API, FileInfo, Options } from 'jscodeshift';
+import { Detection } from '../analyzers/findings';
+import type { TransformationFile } from './registry';
+
+// `next lint` flags with a direct ESLint CLI equivalent
+const ESLINT_FLAGS: Record<string, { eslint?: string; value?: boolean; target?: boolean }> = {
+  '--fix': { eslint: '--fix' },
+  '--quiet': { eslint: '--quiet' },
+  '--max-warnings': { eslint: '--max-warnings', value: true },
+  '--cache': { eslint: '--cache' },
+  '--no-cache': {},
+  '--dir': { value: true, target: true },
+  '-d': { value: true, target: true },
+  '--file': { value: true, target: true }
+};
+
+// `next lint ...` up to the next shell operator
+const NEXT_LINT = /\bnext\s+lint\b([^&|;]*)/g;
+
+// Turbopack is the default bundler for `next dev` and `next build` in Next.js 16
+const TURBOPACK_FLAG = /(\bnext\s+(?:dev|build)\b[^&|;]*?)\s+--turbo(?:pack)?(?:=true)?(?![\w=-])/g;
+
+export function isPackageManifest(filePath: string): boolean {
+  return path.basename(filePath) === 'package.json';
+}
+
+export function detectNextLint(file: TransformationFile): Detection[] {
+  const scripts = isPackageManifest(file.path) ? readScripts(file.content) : {};
+
+  return Object.entries(scripts)
+    .filter(([, command]) => hasNextLint(command))
+    .map(([name, command]): Detection => ({
+      ...positionAt(file.content, findManifestEntry(file.content, 'scripts', name, command)),
+      message: `The "${name}" script runs next lint, which was removed in Next.js 16; run ESLint directly`,
+      severity: 'error',
+      fixable: convertNextLint(command) !== undefined
+    }));
+}
+
+/**
+ * Rewrites `next lint` scripts to the ESLint CLI, editing the manifest text in place so
+ * its formatting is kept. Scripts with flags ESLint has no equivalent for are reported.
+ */
+export function replaceNextLint(fileInfo: FileInfo, api: API, options: Options): string {
+  let source = fileInfo.source;
+  let manifest: any;
+
+  try {
+    manifest = JSON.parse(source);
+  } catch {
+    return source;
+  }
+
+  let modified = false;
+
+  for (const [name, command] of Object.entries<string>(manifest.scripts || {})) {
+    if (!hasNextLint(command)) {
+      continue;
+    }
+
+    const offset = findManifestEntry(source, 'scripts', name, command);
+    const converted = convertNextLint(command);
+
+    if (converted === undefined || offset === -1) {
+      api.report(`line ${positionAt(source, offset).line}: the "${name}" script uses next lint options ESLint has no equivalent for; replace it with an eslint command manually`);
+      continue;
+    }
+
+    const raw = JSON.stringify(command);
+    source = source.slice(0, offset) + JSON.stringify(converted) + source.slice(offset + raw.length);
+    modified = true;
+  }
+
+  if (modified && !manifest.dependencies?.eslint && !manifest.devDependencies?.eslint) {
+    api.report('ESLint is not a dependency; add eslint and eslint-config-next to devDependencies');
+  }
+
+  return modified ? source : fileInfo.source;
+}
+
+export function detectTurbopackFlags(file: TransformationFile): Detection[] {
+  const scripts = isPackageManifest(file.path) ? readScripts(file.content) : {};
+
+  return Object.entries(scripts)
+    .filter(([, command]) => hasTurbopackFlag(command))
+    .map(([name, command]): Detection => ({
+      ...positionAt(file.content, findManifestEntry(file.content, 'scripts', name, command)),
+      message: `The "${name}" script passes --turbopack, which is the default in Next.js 16`,
+      severity: 'info',
+      fixable: true
+    }));
+}
+
+/**
+ * Drops `--turbopack`/`--turbo` from `next dev` and `next build` scripts.
+ */
+export function removeTurbopackFlags(fileInfo: FileInfo, api: API, options: Options): string {
+  let source = fileInfo.source;
+
+  for (const [name, command] of Object.entries(readScripts(source))) {
+    const offset = hasTurbopackFlag(command) ? findManifestEntry(source, 'scripts', name, command) : -1;
+    if (offset === -1) {
+      continue;
+    }
+
+    let converted = command;
+    while (hasTurbopackFlag(converted)) {
+      converted = converted.replace(TURBOPACK_FLAG, '$1');
+    }
+
+    source = source.slice(0, offset) + JSON.stringify(converted) + source.slice(offset + JSON.stringify(command).length);
+  }
+
+  return source;
+}
+
+function hasNextLint(command: string): boolean {
+  return typeof command === 'string' && new RegExp(NEXT_LINT.source).test(command);
+}
+
+/**
+ * Converts every `next lint` in a script to an `eslint` invocation, or returns undefined when
+ * one of the flags cannot be translated.
+ */
+function convertNextLint(command: string): string | undefined {
+  let failed = false;
+
+  const converted = command.replace(NEXT_LINT, (match, args: string) => {
+    const tokens = args.trim().split(/\s+/).filter(Boolean);
+    const flags: string[] = [];
+    const targets: string[] = [];
+
+    for (let index = 0; index < tokens.length; index++) {
+      const [flag, inline] = tokens[index].split('=');
+      const mapping = ESLINT_FLAGS[flag];
+      if (!mapping) {
+        failed = true;
+        break;
+      }
+
+      const value = mapping.value ? inline ?? tokens[++index] : undefined;
+      if (mapping.target) {
+        targets.push(value);
+      } else if (mapping.eslint) {
+        flags.push(mapping.value ? `${mapping.eslint} ${value}` : mapping.eslint);
+      }
+    }
+
+    const trailing = args.match(/\s*$/)[0];
+    return ['eslint', ...(targets.length > 0 ? targets : ['.']), ...flags].join(' ') + trailing;
+  });
+
+  return failed ? undefined : converted;
+}
+
+function hasTurbopackFlag(command: string): boolean {
+  return typeof command === 'string' && new RegExp(TURBOPACK_FLAG.source).test(command);
+}
+
+function readScripts(content: string): Record<string, string> {
+  try {
+    return JSON.parse(content).scripts || {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Returns the offset of an entry's quoted value within a section of the manifest text
+ * (e.g. a script's command or a dependency's range), or -1.
+ */
+export function findManifestEntry(content: string, section: string, name: string, value: string): number {
+  const start = content.search(new RegExp(`"${escapeRegExp(section)}"\\s*:\\s*\\{`));
+  const key = new RegExp(`${escapeRegExp(JSON.stringify(name))}\\s*:\\s*${escapeRegExp(JSON.stringify(value))}`);
+  const match = start === -1 ? null : key.exec(content.slice(start, sectionEnd(content, start)));
+
+  return match ? start + match.index + match[0].length - JSON.stringify(value).length : -1;
+}
+
+/**
+ * Returns the offset just past the closing brace of the flat object starting at `start`,
+ * skipping braces inside strings.
+ */
+function sectionEnd(content: string, start: number): number {
+  let inString = false;
+
+  for (let index = content.indexOf('{', start) + 1; index < content.length; index++) {
+    const char = content[index];
+    if (inString && char === '\\') {
+      index++;
+    } else if (char === '"') {
+      inString = !inString;
+    } else if (!inString && char === '}') {
+      return index + 1;
+    }
+  }
+
+  return content.length;
+}
+
+export function positionAt(content: string, offset: number): { line: number; column: number } {
+  if (offset < 0) {
+    return { line: 1, column: 1 };
+  }
+
+  const before = content.slice(0, offset).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,49 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { glob } from 'glob';
+import { DEFAULT_PAGE_EXTENSIONS, NextApp } from '../analyzers/workspace';
+import { resolvePrintOptions } from './formatting';
+
+// What a generated default.js does when the slot has no matching route
+export type SlotDefaultKind = 'null' | 'not-found';
+
+export const SLOT_DEFAULT_KINDS: SlotDefaultKind[] = ['null', 'not-found'];
+
+export interface SlotDefaultFile {
+  // Path of the file to create, relative to the workspace root
+  file: string;
+  content: string;
+}
+
+/**
+ * Renders the default file for a parallel route slot. The extension follows the slot's own
+ * pages and layouts, falling back to tsx in TypeScript projects and js otherwise.
+ */
+export async function createSlotDefault(slot: string, app: NextApp, kind: SlotDefaultKind = 'null', cwd: string = process.cwd()): Promise<SlotDefaultFile> {
+  const extension = await pickExtension(slot, app, cwd);
+  const file = `${slot}/default.${extension}`;
+  const { quote } = await resolvePrintOptions(path.join(cwd, file), cwd);
+  const q = quote === 'single' ? '\'' : '"';
+
+  const content = kind === 'not-found'
+    ? `import { notFound } from ${q}next/navigation${q};\n\nexport default function Default() {\n  notFound();\n}\n`
+    : 'export default function Default() {\n  return null;\n}\n';
+
+  return { file, content };
+}
+
+async function pickExtension(slot: string, app: NextApp, cwd: string): Promise<string> {
+  const pageExtensions = app.pageExtensions || DEFAULT_PAGE_EXTENSIONS;
+  const siblings = await glob('**/{page,layout}.*', { cwd: path.join(cwd, slot), ignore: ['**/node_modules/**'] });
+
+  for (const sibling of siblings.sort()) {
+    const extension = pageExtensions.find(ext => path.basename(sibling).endsWith(`.${ext}`));
+    if (extension) {
+      return extension;
+    }
+  }
+
+  const typescript = await fs.pathExists(path.join(cwd, app.root, 'tsconfig.json'));
+  const preferred = typescript ? ['tsx', 'ts'] : ['js', 'jsx'];
+  return preferred.find(ext => pageExtensions.includes(ext)) || pageExtensions[0];
+}
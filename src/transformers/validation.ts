@@ -0,0 +1,166 @@
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+import jscodeshift from 'jscodeshift';
+import type TypeScript from 'typescript';
+
+export class ValidationError extends Error {
+  line?: number;
+
+  constructor(message: string, line?: number) {
+    super(message);
+    this.name = 'ValidationError';
+    this.line = line;
+  }
+}
+
+export interface ValidationIssue {
+  message: string;
+  line?: number;
+}
+
+export interface CheckedFile {
+  // Absolute path the output will be written to
+  path: string;
+  // Absolute path of the file before the migration (differs for renames)
+  originalPath: string;
+  source: string;
+}
+
+/**
+ * Throws a ValidationError when transformed output no longer parses.
+ */
+export function checkSyntax(source: string, filePath: string = ''): void {
+  try {
+    if (filePath.endsWith('.json')) {
+      JSON.parse(source);
+    } else {
+      jscodeshift.withParser('tsx')(source);
+    }
+  } catch (error) {
+    throw new ValidationError(
+      `Transformed output does not parse: ${error instanceof Error ? error.message : String(error)}`,
+      (error as any)?.loc?.line
+    );
+  }
+}
+
+/**
+ * Returns the 1-based number of the first line that differs between two sources.
+ */
+export function firstDifferentLine(before: string, after: string): number | undefined {
+  const beforeLines = before.split('\n');
+  const afterLines = after.split('\n');
+  const length = Math.max(beforeLines.length, afterLines.length);
+
+  for (let index = 0; index < length; index++) {
+    if (beforeLines[index] !== afterLines[index]) {
+      return index + 1;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Type-checks transformed sources in memory against the project's tsconfig using the
+ * project's own TypeScript install. Only diagnostics the migration introduced are reported.
+ */
+export class TypeChecker {
+  private ts: typeof TypeScript;
+  private configPath: string;
+
+  private constructor(ts: typeof TypeScript, configPath: string) {
+    this.ts = ts;
+    this.configPath = configPath;
+  }
+
+  static load(cwd: string = process.cwd()): TypeChecker | undefined {
+    const configPath = path.join(cwd, 'tsconfig.json');
+    if (!fs.existsSync(configPath)) {
+      return undefined;
+    }
+
+    try {
+      const projectRequire = createRequire(path.join(cwd, 'package.json'));
+      return new TypeChecker(projectRequire('typescript'), configPath);
+    } catch {
+      return undefined;
+    }
+  }
+
+  check(files: CheckedFile[]): Map<string, ValidationIssue[]> {
+    const before = this.collectDiagnostics(files.map(file => file.originalPath), new Map());
+    const after = this.collectDiagnostics(
+      files.map(file => file.path),
+      new Map(files.map(file => [path.resolve(file.path), file.source]))
+    );
+
+    const issues = new Map<string, ValidationIssue[]>();
+
+    for (const file of files) {
+      // Diagnostics are matched by code and text since line numbers shift
+      const existing = (before.get(path.resolve(file.originalPath)) || []).map(issue => issue.key);
+      const introduced = (after.get(path.resolve(file.path)) || []).filter(issue => {
+        const index = existing.indexOf(issue.key);
+        if (index === -1) {
+          return true;
+        }
+        existing.splice(index, 1);
+        return false;
+      });
+
+      if (introduced.length > 0) {
+        issues.set(file.path, introduced.map(({ message, line }) => ({ message, line })));
+      }
+    }
+
+    return issues;
+  }
+
+  private collectDiagnostics(fileNames: string[], overrides: Map<string, string>): Map<string, Array<ValidationIssue & { key: string }>> {
+    const ts = this.ts;
+    const configFile = ts.readConfigFile(this.configPath, ts.sys.readFile);
+    const config = ts.parseJsonConfigFileContent(configFile.config || {}, ts.sys, path.dirname(this.configPath));
+    const options = { ...config.options, noEmit: true };
+
+    const host = ts.createCompilerHost(options);
+    const { fileExists, readFile, getSourceFile } = host;
+
+    host.fileExists = fileName => overrides.has(path.resolve(fileName)) || fileExists.call(host, fileName);
+    host.readFile = fileName => overrides.get(path.resolve(fileName)) ?? readFile.call(host, fileName);
+    host.getSourceFile = (fileName, languageVersion, onError, shouldCreateNewSourceFile) => {
+      const override = overrides.get(path.resolve(fileName));
+      return override !== undefined
+        ? ts.createSourceFile(fileName, override, languageVersion, true)
+        : getSourceFile.call(host, fileName, languageVersion, onError, shouldCreateNewSourceFile);
+    };
+
+    const rootNames = Array.from(new Set([...config.fileNames, ...fileNames].map(fileName => path.resolve(fileName))));
+    const program = ts.createProgram({ rootNames, options, host });
+    const diagnostics = new Map<string, Array<ValidationIssue & { key: string }>>();
+
+    for (const fileName of fileNames) {
+      const sourceFile = program.getSourceFile(path.resolve(fileName));
+      if (!sourceFile) {
+        continue;
+      }
+
+      const fileDiagnostics = [
+        ...program.getSyntacticDiagnostics(sourceFile),
+        ...program.getSemanticDiagnostics(sourceFile)
+      ];
+
+      diagnostics.set(path.resolve(fileName), fileDiagnostics.map(diagnostic => {
+        const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+        const line = diagnostic.start !== undefined
+          ? sourceFile.getLineAndCharacterOfPosition(diagnostic.start).line + 1
+          : undefined;
+
+        return { message: `TS${diagnostic.code}: ${message}`, line, key: `${diagnostic.code}:${message}` };
+      }));
+    }
+
+    return diagnostics;
+  }
+}
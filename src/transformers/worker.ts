@@ -0,0 +1,37 @@
+import { parentPort } from 'worker_threads';
+import { ProjectAnalyzer } from '../analyzers/compatibility';
+import { MigrationEngine } from './engine';
+import { TransformationRegistry } from './registry';
+import { WorkerResult, WorkerTask } from './pool';
+
+// Worker threads share the main thread's working directory
+const registry = TransformationRegistry.load();
+// Load errors are reported per task below; either way the worker is ready for tasks
+registry.then(ready, ready);
+
+function ready(): void {
+  parentPort?.postMessage({ ready: true });
+}
+
+parentPort?.on('message', async (task: WorkerTask) => {
+  let result: WorkerResult;
+
+  try {
+    const loadedRegistry = await registry;
+
+    if (task.type === 'analyze') {
+      result = { value: await new ProjectAnalyzer(loadedRegistry, { app: task.app }).analyzeFile(task.file) };
+    } else {
+      result = { value: await new MigrationEngine(loadedRegistry).prepareFile(task.file, { format: task.format }) };
+    }
+  } catch (error) {
+    result = {
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        line: error?.line
+      }
+    };
+  }
+
+  parentPort?.postMessage(result);
+});
@@ -1,16 +1,110 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { simpleGit, SimpleGit } from 'simple-git';
+import os from 'os';
+import crypto from 'crypto';
+import { createTwoFilesPatch } from 'diff';
 import chalk from 'chalk';
+import * as tar from 'tar';
+
+export const MIGRATOR_DIR = '.nextjs16-migrator';
+export const BACKUP_REF_PREFIX = 'refs/nextjs16-migrator/';
 
 export interface Backup {
   id: string;
   timestamp: string;
   description: string;
   gitCommit?: string;
+  // Private ref holding the snapshot commit, e.g. refs/nextjs16-migrator/<id>
+  gitRef?: string;
+  // Directory holding the snapshot manifest
   filesBackup?: string;
+  // Number of files in the snapshot
+  fileCount?: number;
+  // Files the migration created, removed on restore
+  createdFiles?: string[];
+  // Content hash of every path the migration wrote (null when it deleted the path), so a
+  // restore can tell migrated files from newer work
+  migratedFiles?: Record<string, string | null>;
+  // Every change the migration made, for selective rollback
+  changes?: ChangeRecord[];
+}
+
+export interface ChangeRecord {
+  file: string;
+  description?: string;
+  type: 'transformation' | 'creation' | 'deletion';
+  transformation?: string;
+  // Path a created file was renamed from
+  source?: string;
+}
+
+// A migrated file with the changes made to it
+export interface ChangedFile {
+  file: string;
+  status: 'modified' | 'created' | 'deleted';
+  transformations: string[];
+  // The other side of a rename, restored together with this file
+  renamedWith?: string;
+}
+
+export interface SnapshotEntry {
+  // Path relative to the project root
+  path: string;
+  // sha256 of the content, or null when the path did not exist (restore removes it)
+  sha256: string | null;
+  size?: number;
+}
+
+export interface SnapshotManifest {
+  version: number;
+  files: SnapshotEntry[];
+}
+
+export interface RestoreOptions {
+  // Overwrite migrated files that were edited after the migration
+  force?: boolean;
+  // Only restore these paths; the backup then forgets them, so a later full rollback skips them
+  files?: string[];
 }
 
+export interface RestoreResult {
+  restored: string[];
+  removed: string[];
+  // Files that could not be restored, with the reason
+  failed: { file: string; reason: string }[];
+}
+
+export interface PruneOptions {
+  // Always keep this many of the most recent backups
+  keep?: number;
+  // Only delete backups older than this many milliseconds
+  olderThan?: number;
+  // Only report what would be deleted
+  dryRun?: boolean;
+}
+
+export interface BackupDiff {
+  file: string;
+  // Compared with the snapshot: `added` paths did not exist when the backup was made
+  status: 'unchanged' | 'modified' | 'added' | 'deleted';
+  patch: string;
+}
+
+const MANIFEST_FILE = 'manifest.json';
+const MANIFEST_VERSION = 1;
+
+// Backups kept when a new one is made
+const DEFAULT_KEEP = 10;
+
+// Name of the backup entry inside an exported archive
+const EXPORT_METADATA_FILE = 'backup.json';
+
+const BACKUP_ID_PATTERN = /^backup-\d+$/;
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+const ISO_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+const COMMIT_PATTERN = /^[0-9a-f]{40}([0-9a-f]{24})?$/;
+
 export class BackupManager {
   private git: SimpleGit;
   private backupDir: string;
@@ -20,7 +114,11 @@ export class BackupManager {
     this.backupDir = path.join(process.cwd(), '.nextjs16-migrator', 'backups');
   }
 
-  async createBackup(): Promise<string> {
+  /**
+   * Backs up the files a migration is about to modify, create, rename or delete (paths
+   * relative to the project root), plus a git snapshot of the working tree when possible.
+   */
+  async createBackup(files: string[] = []): Promise<string> {
     const backupId = `backup-${Date.now()}`;
     const timestamp = new Date().toISOString();
     
@@ -30,31 +128,36 @@ export class BackupManager {
     await fs.ensureDir(this.backupDir);
     
     // Create git backup
-    const gitCommit = await this.createGitBackup(backupId);
+    const snapshot = await this.createGitBackup(backupId);
     
-    // Create file backup for non-git files
-    const filesBackup = await this.createFilesBackup(backupId);
+    // Snapshot exactly the planned change set, so projects without git can be restored too
+    const { filesBackup, fileCount } = await this.createFilesBackup(backupId, files);
     
     // Save backup metadata
     const backup: Backup = {
       id: backupId,
       timestamp,
       description: 'Pre-migration backup',
-      gitCommit,
-      filesBackup
+      gitCommit: snapshot?.gitCommit,
+      gitRef: snapshot?.gitRef,
+      filesBackup,
+      fileCount
     };
     
     await this.saveBackupMetadata(backup);
-    
-    console.log(chalk.green(`✓ Backup created: ${backupId}`));
-    if (gitCommit) {
-      console.log(chalk.gray(`  Git commit: ${gitCommit}`));
-    }
+    await this.cleanup();
     
     return backupId;
   }
 
-  private async createGitBackup(backupId: string): Promise<string | undefined> {
+  /**
+   * Snapshots the working tree (tracked and untracked files) into a commit that only a
+   * private ref points to. A temporary index is used, so the current branch, HEAD and the
+   * staging area are left exactly as they were.
+   */
+  private async createGitBackup(backupId: string): Promise<{ gitCommit: string; gitRef: string } | undefined> {
+    const indexFile = path.join(os.tmpdir(), `nextjs16-migrator-${backupId}.index`);
+    
     try {
       // Check if we're in a git repository
       const isRepo = await this.git.checkIsRepo();
@@ -62,55 +165,81 @@ export class BackupManager {
         console.log(chalk.yellow('⚠ Not in a git repository, skipping git backup'));
         return undefined;
       }
-
-      // Check for uncommitted changes
-      const status = await this.git.status();
-      if (status.files.length > 0) {
-        console.log(chalk.yellow('⚠ Uncommitted changes detected, committing them first...'));
-        await this.git.add('.');
-        await this.git.commit(`Auto-commit before Next.js 16 migration backup ${backupId}`);
+      
+      // The snapshot is authored by the migrator, so it works without a configured git identity
+      const git = simpleGit().env({
+        ...process.env,
+        GIT_INDEX_FILE: indexFile,
+        GIT_AUTHOR_NAME: 'nextjs16-migrator',
+        GIT_AUTHOR_EMAIL: 'nextjs16-migrator@localhost',
+        GIT_COMMITTER_NAME: 'nextjs16-migrator',
+        GIT_COMMITTER_EMAIL: 'nextjs16-migrator@localhost'
+      });
+      const head = (await this.git.raw(['rev-parse', '--verify', '--quiet', 'HEAD']).catch(() => '')).trim();
+      
+      if (head) {
+        await git.raw(['read-tree', head]);
       }
-
-      // Create backup commit
-      await this.git.add('.');
-      const commit = await this.git.commit(`Next.js 16 migration backup: ${backupId}`);
+      await git.raw(['add', '-A', '--', '.', `:(exclude)${MIGRATOR_DIR}`]);
+      const tree = (await git.raw(['write-tree'])).trim();
+      
+      const message = `Next.js 16 migration backup: ${backupId}`;
+      const gitCommit = (await git.raw(['commit-tree', tree, ...(head ? ['-p', head] : []), '-m', message])).trim();
+      const gitRef = `${BACKUP_REF_PREFIX}${backupId}`;
+      await this.git.raw(['update-ref', gitRef, gitCommit]);
       
-      return commit.commit;
+      return { gitCommit, gitRef };
     } catch (error) {
       console.log(chalk.yellow(`⚠ Git backup failed: ${error.message}`));
       return undefined;
+    } finally {
+      await fs.remove(indexFile);
     }
   }
 
-  private async createFilesBackup(backupId: string): Promise<string> {
+  /**
+   * Stores each file once in a content-addressed object store shared by all backups, and
+   * writes a manifest of the snapshot's paths and checksums.
+   */
+  private async createFilesBackup(backupId: string, files: string[]): Promise<{ filesBackup: string; fileCount: number }> {
     const backupPath = path.join(this.backupDir, backupId);
     await fs.ensureDir(backupPath);
     
-    // Copy important files that might not be in git
-    const filesToBackup = [
-      'package.json',
-      'package-lock.json',
-      'yarn.lock',
-      'next.config.js',
-      'next.config.ts',
-      'tsconfig.json',
-      'tailwind.config.js',
-      'tailwind.config.ts',
-      '.env.local',
-      '.env',
-      'middleware.ts',
-      'proxy.ts'
-    ];
+    const entries: SnapshotEntry[] = [];
     
-    for (const file of filesToBackup) {
+    for (const file of Array.from(new Set(files.map(normalizePath))).sort()) {
       const sourcePath = path.join(process.cwd(), file);
-      if (await fs.pathExists(sourcePath)) {
-        const destPath = path.join(backupPath, file);
-        await fs.copy(sourcePath, destPath);
+      
+      if (!await fs.pathExists(sourcePath)) {
+        entries.push({ path: file, sha256: null });
+        continue;
       }
+      
+      const content = await fs.readFile(sourcePath);
+      const sha256 = hashContent(content);
+      const objectPath = this.objectPath(sha256);
+      
+      if (!await fs.pathExists(objectPath)) {
+        // Write then rename, so an interrupted backup never leaves a truncated object
+        await fs.outputFile(`${objectPath}.tmp`, content);
+        await fs.move(`${objectPath}.tmp`, objectPath, { overwrite: true });
+      }
+      entries.push({ path: file, sha256, size: content.length });
     }
     
-    return backupPath;
+    const manifest: SnapshotManifest = { version: MANIFEST_VERSION, files: entries };
+    await fs.writeJson(path.join(backupPath, MANIFEST_FILE), manifest, { spaces: 2 });
+    
+    return { filesBackup: backupPath, fileCount: entries.length };
+  }
+
+  private objectPath(sha256: string): string {
+    return path.join(this.backupDir, 'objects', sha256.slice(0, 2), sha256);
+  }
+
+  async readManifest(backup: Backup): Promise<SnapshotManifest | undefined> {
+    const manifestPath = backup.filesBackup && path.join(backup.filesBackup, MANIFEST_FILE);
+    return manifestPath && await fs.pathExists(manifestPath) ? fs.readJson(manifestPath) : undefined;
   }
 
   private async saveBackupMetadata(backup: Backup): Promise<void> {
@@ -123,11 +252,33 @@ export class BackupManager {
     
     metadata.unshift(backup); // Add to beginning of array
     
-    // Keep only last 10 backups
-    if (metadata.length > 10) {
-      metadata = metadata.slice(0, 10);
+    await fs.writeJson(metadataPath, metadata, { spaces: 2 });
+  }
+
+  /**
+   * Records the paths a migration wrote after the backup was taken, with their new content
+   * hashes, so restoring only touches those paths and removes the files it created.
+   */
+  async recordMigration(backupId: string, changes: ChangeRecord[]): Promise<void> {
+    const metadataPath = path.join(this.backupDir, 'metadata.json');
+    const metadata = await this.listBackups();
+    const backup = metadata.find(b => b.id === backupId);
+    
+    if (!backup) {
+      throw new Error(`Backup ${backupId} not found`);
     }
     
+    const created = changes.filter(change => change.type === 'creation').map(change => change.file);
+    backup.createdFiles = Array.from(new Set([...(backup.createdFiles || []), ...created]));
+    backup.migratedFiles = backup.migratedFiles || {};
+    for (const { file } of changes) {
+      backup.migratedFiles[file] = await hashFile(path.join(process.cwd(), file));
+    }
+    backup.changes = [
+      ...(backup.changes || []),
+      ...changes.map(({ file, description, type, transformation, source }) => ({ file, description, type, transformation, source }))
+    ];
+    
     await fs.writeJson(metadataPath, metadata, { spaces: 2 });
   }
 
@@ -141,7 +292,11 @@ export class BackupManager {
     return await fs.readJson(metadataPath);
   }
 
-  async restoreBackup(backupId: string): Promise<void> {
+  /**
+   * Restores the paths the migration wrote. Snapshot files are verified against their
+   * checksums before and after writing; anything that cannot be restored is reported.
+   */
+  async restoreBackup(backupId: string, options: RestoreOptions = {}): Promise<RestoreResult> {
     const backups = await this.listBackups();
     const backup = backups.find(b => b.id === backupId);
     
@@ -149,51 +304,427 @@ export class BackupManager {
       throw new Error(`Backup ${backupId} not found`);
     }
     
+    const selected = options.files && new Set(options.files);
+    
+    // Migrated files edited since the migration hold newer work a restore would discard
+    const modified: string[] = [];
+    for (const [file, hash] of Object.entries(backup.migratedFiles || {})) {
+      if ((!selected || selected.has(file)) && await hashFile(path.join(process.cwd(), file)) !== hash) {
+        modified.push(file);
+      }
+    }
+    if (modified.length > 0 && !options.force) {
+      throw new Error(`These files changed after the migration and would be overwritten: ${modified.join(', ')}. Commit or stash that work, or pass --force.`);
+    }
+    
     console.log(chalk.blue(`Restoring from backup: ${backupId}`));
     
-    // Restore git state if available
-    if (backup.gitCommit) {
+    const manifest = await this.readManifest(backup);
+    const entries = new Map((manifest?.files || []).map(entry => [entry.path, entry]));
+    const created = new Set(backup.createdFiles || []);
+    const result: RestoreResult = { restored: [], removed: [], failed: [] };
+    const fromGit: string[] = [];
+    
+    const paths = (await this.pathsToRestore(backup, manifest)).filter(file => !selected || selected.has(file));
+    
+    for (const file of paths) {
+      const entry = entries.get(file);
+      
+      const filePath = resolveProjectPath(file);
+      if (!filePath) {
+        result.failed.push({ file, reason: 'path is outside the project' });
+      } else if (entry?.sha256 === null || (!entry && created.has(file))) {
+        await fs.remove(filePath);
+        result.removed.push(file);
+      } else if (entry) {
+        const error = await this.restoreEntry(entry);
+        if (error) {
+          result.failed.push({ file, reason: error });
+        } else {
+          result.restored.push(file);
+        }
+      } else if (backup.gitRef && await this.git.raw(['cat-file', '-e', `${backup.gitRef}:./${file}`]).then(() => true, () => false)) {
+        fromGit.push(file);
+      } else {
+        result.failed.push({ file, reason: 'not in the backup' });
+      }
+    }
+    
+    // Paths outside the snapshot come from the git snapshot, leaving HEAD and the index alone
+    if (fromGit.length > 0) {
       try {
-        await this.git.reset(['--hard', backup.gitCommit]);
-        console.log(chalk.green(`✓ Git state restored to commit: ${backup.gitCommit}`));
+        await this.git.raw(['restore', `--source=${backup.gitRef}`, '--worktree', '--', ...fromGit]);
+        result.restored.push(...fromGit);
       } catch (error) {
-        console.log(chalk.yellow(`⚠ Git restore failed: ${error.message}`));
+        fromGit.forEach(file => result.failed.push({ file, reason: `git restore failed: ${error.message}` }));
       }
     }
     
-    // Restore files if available
-    if (backup.filesBackup && await fs.pathExists(backup.filesBackup)) {
-      const files = await fs.readdir(backup.filesBackup);
+    if (selected) {
+      // Reverted paths are no longer part of the migration
+      const reverted = new Set([...result.restored, ...result.removed]);
+      backup.createdFiles = backup.createdFiles?.filter(file => !reverted.has(file));
+      backup.changes = backup.changes?.filter(change => !reverted.has(change.file));
+      reverted.forEach(file => delete backup.migratedFiles?.[file]);
+      await fs.writeJson(path.join(this.backupDir, 'metadata.json'), backups, { spaces: 2 });
+    }
+    
+    return result;
+  }
+
+  /**
+   * Groups a backup's change records by file. Empty for backups made before changes were
+   * recorded, which can only be restored as a whole.
+   */
+  changedFiles(backup: Backup): ChangedFile[] {
+    const files = new Map<string, ChangedFile>();
+    
+    for (const change of backup.changes || []) {
+      const changed = files.get(change.file) || { file: change.file, status: 'modified', transformations: [] };
       
-      for (const file of files) {
-        const sourcePath = path.join(backup.filesBackup, file);
-        const destPath = path.join(process.cwd(), file);
-        
-        await fs.copy(sourcePath, destPath);
+      if (change.type === 'creation') {
+        changed.status = 'created';
+        changed.renamedWith = change.source;
+      } else if (change.type === 'deletion') {
+        changed.status = 'deleted';
       }
-      
-      console.log(chalk.green(`✓ Files restored from backup`));
+      if (change.transformation && !changed.transformations.includes(change.transformation)) {
+        changed.transformations.push(change.transformation);
+      }
+      files.set(change.file, changed);
+    }
+    
+    // A deleted file that was renamed belongs with the file it became
+    files.forEach(changed => {
+      if (changed.renamedWith && files.has(changed.renamedWith)) {
+        files.get(changed.renamedWith).renamedWith = changed.file;
+      }
+    });
+    
+    return Array.from(files.values()).sort((a, b) => a.file.localeCompare(b.file));
+  }
+
+  /**
+   * Returns the paths to restore: the ones the migration recorded writing, else the whole
+   * snapshot, else (for git-only backups) every path that differs from the git snapshot.
+   */
+  private async pathsToRestore(backup: Backup, manifest?: SnapshotManifest): Promise<string[]> {
+    if (backup.migratedFiles) {
+      return Object.keys(backup.migratedFiles);
+    }
+    if (manifest) {
+      return manifest.files.map(entry => entry.path);
+    }
+    if (backup.gitRef) {
+      const diff = await this.git.raw(['diff', '--name-only', '--relative', backup.gitRef, '--', '.', `:(exclude)${MIGRATOR_DIR}`]);
+      return diff.split('\n').filter(Boolean);
     }
+    return [];
   }
 
+  /**
+   * Writes one snapshot file back, returning why it failed if it did.
+   */
+  private async restoreEntry(entry: SnapshotEntry): Promise<string | undefined> {
+    const objectPath = this.objectPath(entry.sha256);
+    if (!await fs.pathExists(objectPath)) {
+      return 'missing from the backup store';
+    }
+    
+    const content = await fs.readFile(objectPath);
+    if (hashContent(content) !== entry.sha256) {
+      return 'backup copy is corrupted (checksum mismatch)';
+    }
+    
+    const filePath = resolveProjectPath(entry.path);
+    if (!filePath) {
+      return 'path is outside the project';
+    }
+    try {
+      await fs.outputFile(filePath, content);
+    } catch (error) {
+      return error.message;
+    }
+    
+    return await hashFile(filePath) === entry.sha256 ? undefined : 'checksum mismatch after writing';
+  }
+
+  async getBackup(backupId: string): Promise<Backup> {
+    const backup = (await this.listBackups()).find(b => b.id === backupId);
+    if (!backup) {
+      throw new Error(`Backup ${backupId} not found`);
+    }
+    return backup;
+  }
+
+  /**
+   * Keeps the most recent backups and deletes the rest.
+   */
   async cleanup(): Promise<void> {
+    const removed = await this.prune({ keep: DEFAULT_KEEP });
+    if (removed.length > 0) {
+      console.log(chalk.gray(`Cleaned up ${removed.length} old backups`));
+    }
+  }
+
+  /**
+   * Deletes the backups older than `olderThan`, except the `keep` most recent (either option
+   * alone applies on its own), with their directories and git refs. Directories and refs no
+   * backup entry points to, and objects no manifest refers to, are removed as well.
+   */
+  async prune(options: PruneOptions = {}): Promise<Backup[]> {
     const backups = await this.listBackups();
+    const now = Date.now();
+    const pruned = options.keep === undefined && options.olderThan === undefined
+      ? []
+      : backups.filter((backup, index) =>
+        index >= (options.keep ?? 0) && (options.olderThan === undefined || now - Date.parse(backup.timestamp) > options.olderThan)
+      );
+    const kept = backups.filter(backup => !pruned.includes(backup));
+    
+    if (options.dryRun) {
+      return pruned;
+    }
+    if (pruned.length > 0) {
+      await fs.writeJson(path.join(this.backupDir, 'metadata.json'), kept, { spaces: 2 });
+    }
+    
+    // Older versions trimmed the metadata without deleting directories, so sweep by name
+    const keptIds = new Set(kept.map(backup => backup.id));
+    if (await fs.pathExists(this.backupDir)) {
+      for (const entry of await fs.readdir(this.backupDir)) {
+        if (entry.startsWith('backup-') && !keptIds.has(entry)) {
+          await fs.remove(path.join(this.backupDir, entry));
+        }
+      }
+    }
     
-    // Keep only last 5 backups
-    if (backups.length > 5) {
-      const toDelete = backups.slice(5);
+    const refs = await this.git.raw(['for-each-ref', '--format=%(refname)', BACKUP_REF_PREFIX]).catch(() => '');
+    for (const ref of refs.split('\n').filter(Boolean)) {
+      if (!keptIds.has(ref.slice(BACKUP_REF_PREFIX.length))) {
+        await this.git.raw(['update-ref', '-d', ref]).catch(() => undefined);
+      }
+    }
+    
+    await this.collectGarbage(kept);
+    return pruned;
+  }
+
+  /**
+   * Compares each file of a backup's snapshot with the working tree. Backups with only a
+   * git snapshot are compared through git.
+   */
+  async diffBackup(backupId: string): Promise<BackupDiff[]> {
+    const backup = await this.getBackup(backupId);
+    const manifest = await this.readManifest(backup);
+    const diffs: BackupDiff[] = [];
+    
+    if (!manifest) {
+      if (!backup.gitRef) {
+        throw new Error(`Backup ${backupId} has no snapshot to compare with`);
+      }
+      const changed = await this.git.raw(['diff', '--name-only', '--relative', backup.gitRef, '--', '.', `:(exclude)${MIGRATOR_DIR}`]);
+      for (const file of changed.split('\n').filter(Boolean)) {
+        const patch = await this.git.raw(['diff', '--relative', backup.gitRef, '--', file]);
+        const current = await fs.pathExists(path.join(process.cwd(), file));
+        diffs.push({ file, status: current ? 'modified' : 'deleted', patch });
+      }
+      return diffs;
+    }
+    
+    for (const entry of manifest.files) {
+      const filePath = path.join(process.cwd(), entry.path);
+      const current = await hashFile(filePath);
+      
+      if (current === entry.sha256) {
+        diffs.push({ file: entry.path, status: 'unchanged', patch: '' });
+        continue;
+      }
+      
+      const objectPath = entry.sha256 && this.objectPath(entry.sha256);
+      const before = objectPath && await fs.pathExists(objectPath) ? await fs.readFile(objectPath, 'utf-8') : '';
+      const after = current === null ? '' : await fs.readFile(filePath, 'utf-8');
+      const status = entry.sha256 === null ? 'added' : current === null ? 'deleted' : 'modified';
+      
+      diffs.push({
+        file: entry.path,
+        status,
+        patch: createTwoFilesPatch(`backup/${entry.path}`, entry.path, before, after, backupId, 'working tree')
+      });
+    }
+    
+    return diffs;
+  }
+
+  /**
+   * Writes a backup's snapshot (metadata, manifest and file contents) to a .tgz archive.
+   */
+  async exportBackup(backupId: string, outFile: string): Promise<void> {
+    const backup = await this.getBackup(backupId);
+    const manifest = await this.readManifest(backup);
+    if (!manifest) {
+      throw new Error(`Backup ${backupId} only has a git snapshot; share it with: git push <remote> ${backup.gitRef}`);
+    }
+    
+    const staging = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs16-migrator-export-'));
+    try {
+      const { filesBackup, ...entry } = backup;
+      await fs.writeJson(path.join(staging, EXPORT_METADATA_FILE), entry, { spaces: 2 });
+      await fs.writeJson(path.join(staging, MANIFEST_FILE), manifest, { spaces: 2 });
+      for (const { sha256 } of manifest.files.filter(file => file.sha256)) {
+        await fs.copy(this.objectPath(sha256), path.join(staging, 'objects', sha256));
+      }
       
-      for (const backup of toDelete) {
-        if (backup.filesBackup && await fs.pathExists(backup.filesBackup)) {
-          await fs.remove(backup.filesBackup);
+      await fs.ensureDir(path.dirname(path.resolve(outFile)));
+      await tar.create({ gzip: true, file: path.resolve(outFile), cwd: staging }, ['.']);
+    } finally {
+      await fs.remove(staging);
+    }
+  }
+
+  /**
+   * Adds a backup exported with `exportBackup`, after verifying every file against its
+   * checksum. The git snapshot is reattached when its commit exists in this repository.
+   */
+  async importBackup(archive: string): Promise<Backup> {
+    const staging = await fs.mkdtemp(path.join(os.tmpdir(), 'nextjs16-migrator-import-'));
+    try {
+      await tar.extract({ file: path.resolve(archive), cwd: staging });
+      
+      const metadataPath = path.join(staging, EXPORT_METADATA_FILE);
+      if (!await fs.pathExists(metadataPath)) {
+        throw new Error(`${archive} is not a nextjs16-migrator backup export`);
+      }
+      const backup: Backup = await fs.readJson(metadataPath);
+      const manifest: SnapshotManifest = await fs.readJson(path.join(staging, MANIFEST_FILE));
+      validateImport(archive, backup, manifest);
+      
+      if ((await this.listBackups()).some(b => b.id === backup.id)) {
+        throw new Error(`Backup ${backup.id} already exists`);
+      }
+      
+      for (const { path: file, sha256 } of manifest.files.filter(entry => entry.sha256)) {
+        const objectPath = path.join(staging, 'objects', sha256);
+        if (!await fs.pathExists(objectPath) || hashContent(await fs.readFile(objectPath)) !== sha256) {
+          throw new Error(`${archive} is damaged: the copy of ${file} does not match its checksum`);
+        }
+      }
+      for (const { sha256 } of manifest.files.filter(entry => entry.sha256)) {
+        if (!await fs.pathExists(this.objectPath(sha256))) {
+          await fs.copy(path.join(staging, 'objects', sha256), this.objectPath(sha256));
         }
       }
       
-      const updatedBackups = backups.slice(0, 5);
-      const metadataPath = path.join(this.backupDir, 'metadata.json');
-      await fs.writeJson(metadataPath, updatedBackups, { spaces: 2 });
+      backup.filesBackup = path.join(this.backupDir, backup.id);
+      await fs.outputJson(path.join(backup.filesBackup, MANIFEST_FILE), manifest, { spaces: 2 });
       
-      console.log(chalk.gray(`Cleaned up ${toDelete.length} old backups`));
+      const hasCommit = backup.gitCommit && await this.git.raw(['cat-file', '-e', `${backup.gitCommit}^{commit}`]).then(() => true, () => false);
+      if (hasCommit) {
+        backup.gitRef = `${BACKUP_REF_PREFIX}${backup.id}`;
+        await this.git.raw(['update-ref', backup.gitRef, backup.gitCommit]);
+      } else {
+        backup.gitCommit = undefined;
+        backup.gitRef = undefined;
+      }
+      
+      // Imported backups are listed by when they were made, not when they were imported
+      const metadata = [...await this.listBackups(), backup].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+      await fs.outputJson(path.join(this.backupDir, 'metadata.json'), metadata, { spaces: 2 });
+      
+      return backup;
+    } finally {
+      await fs.remove(staging);
+    }
+  }
+
+  /**
+   * Deletes stored objects that no remaining backup's manifest refers to.
+   */
+  private async collectGarbage(backups: Backup[]): Promise<void> {
+    const objectsDir = path.join(this.backupDir, 'objects');
+    if (!await fs.pathExists(objectsDir)) {
+      return;
+    }
+    
+    const referenced = new Set<string>();
+    for (const backup of backups) {
+      (await this.readManifest(backup))?.files.forEach(entry => entry.sha256 && referenced.add(entry.sha256));
     }
+    
+    for (const prefix of await fs.readdir(objectsDir)) {
+      const objects = await fs.readdir(path.join(objectsDir, prefix));
+      for (const object of objects.filter(object => !referenced.has(object))) {
+        await fs.remove(path.join(objectsDir, prefix, object));
+      }
+      if (objects.every(object => !referenced.has(object))) {
+        await fs.remove(path.join(objectsDir, prefix));
+      }
+    }
+  }
+}
+
+/**
+ * Resolves a backup path against the project root; undefined when it is absolute or
+ * escapes the project.
+ */
+function resolveProjectPath(file: string): string | undefined {
+  const root = process.cwd();
+  const resolved = path.resolve(root, file);
+  if (path.isAbsolute(file) || resolved === root || !resolved.startsWith(root + path.sep)) {
+    return undefined;
+  }
+  return resolved;
+}
+
+/**
+ * Rejects an imported backup whose id, paths or hashes could reach outside the backup
+ * store or the project.
+ */
+function validateImport(archive: string, backup: Backup, manifest: SnapshotManifest): void {
+  if (typeof backup.id !== 'string' || !BACKUP_ID_PATTERN.test(backup.id)) {
+    throw new Error(`${archive} has an invalid backup id: ${JSON.stringify(backup.id)}`);
+  }
+  if (typeof backup.timestamp !== 'string' || !ISO_TIMESTAMP_PATTERN.test(backup.timestamp) || isNaN(Date.parse(backup.timestamp))) {
+    throw new Error(`${archive} has an invalid timestamp: ${JSON.stringify(backup.timestamp)}`);
+  }
+  if (backup.gitCommit !== undefined && (typeof backup.gitCommit !== 'string' || !COMMIT_PATTERN.test(backup.gitCommit))) {
+    throw new Error(`${archive} has an invalid git commit: ${JSON.stringify(backup.gitCommit)}`);
+  }
+  if (!Array.isArray(manifest?.files)) {
+    throw new Error(`${archive} has no valid snapshot manifest`);
+  }
+  
+  const paths = [
+    ...manifest.files.map(entry => entry.path),
+    ...Object.keys(backup.migratedFiles || {}),
+    ...(backup.createdFiles || []),
+    ...(backup.changes || []).map(change => change.file)
+  ];
+  const unsafe = paths.find(file => typeof file !== 'string' || !resolveProjectPath(file));
+  if (unsafe !== undefined) {
+    throw new Error(`${archive} refers to a path outside the project: ${JSON.stringify(unsafe)}`);
+  }
+  
+  const hash = manifest.files.find(entry => entry.sha256 !== null && (typeof entry.sha256 !== 'string' || !SHA256_PATTERN.test(entry.sha256)));
+  if (hash) {
+    throw new Error(`${archive} has an invalid checksum for ${hash.path}`);
+  }
+}
+
+function normalizePath(file: string): string {
+  return path.normalize(file).split(path.sep).join('/');
+}
+
+export function hashContent(content: Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Returns the sha256 of a file's content, or null when it does not exist.
+ */
+export async function hashFile(filePath: string): Promise<string | null> {
+  if (!await fs.pathExists(filePath)) {
+    return null;
   }
+  return hashContent(await fs.readFile(filePath));
 }
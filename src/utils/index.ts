@@ -1,2 +1,4 @@
 export * from './backup';
+export * from './journal';
+export * from './package-manager';
 export * from './reporting';
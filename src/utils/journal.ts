@@ -0,0 +1,272 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { hashContent, hashFile, MIGRATOR_DIR, RestoreResult } from './backup';
+
+export const JOURNAL_FILE = 'journal.jsonl';
+
+export type JournalEntry =
+  // A migration run started; `options` are what --resume runs it again with
+  | { op: 'begin'; timestamp: string; backupId?: string; options: Record<string, unknown> }
+  // About to write a path: hashes before and after (null when absent, undefined when a
+  // step such as an install decides the content itself)
+  | { op: 'write'; file: string; before: string | null; after?: string | null }
+  // The write finished
+  | { op: 'done'; file: string; after: string | null };
+
+interface StagedWrite {
+  file: string;
+  remove: boolean;
+}
+
+/**
+ * Write-ahead journal of a migration run in `.nextjs16-migrator/journal.jsonl`. Every write
+ * is recorded, with the original content kept aside, before it happens, so an interrupted
+ * run can be resumed or undone. In staged mode writes are held back until `commit()`.
+ */
+export class MigrationJournal {
+  private dir: string;
+  private staged: StagedWrite[] = [];
+
+  private constructor(private cwd: string, private entries: JournalEntry[]) {
+    this.dir = path.join(cwd, MIGRATOR_DIR);
+  }
+
+  /**
+   * Starts a new journal; fails if an earlier run left one behind.
+   */
+  static async begin(options: Record<string, unknown> = {}, backupId?: string, cwd: string = process.cwd()): Promise<MigrationJournal> {
+    if (await MigrationJournal.load(cwd)) {
+      throw new Error('A previous migration was interrupted. Run "migrate --resume" to finish it or "migrate --abort" to undo it.');
+    }
+
+    const journal = new MigrationJournal(cwd, []);
+    await fs.ensureDir(journal.dir);
+    await journal.append({ op: 'begin', timestamp: new Date().toISOString(), backupId, options });
+    return journal;
+  }
+
+  /**
+   * Loads the journal an interrupted run left behind, if any.
+   */
+  static async load(cwd: string = process.cwd()): Promise<MigrationJournal | undefined> {
+    const journalPath = path.join(cwd, MIGRATOR_DIR, JOURNAL_FILE);
+    if (!await fs.pathExists(journalPath)) {
+      return undefined;
+    }
+
+    // A crash can cut the last line short; it was never acted on
+    const entries: JournalEntry[] = [];
+    for (const line of (await fs.readFile(journalPath, 'utf-8')).split('\n').filter(Boolean)) {
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        break;
+      }
+    }
+    return new MigrationJournal(cwd, entries);
+  }
+
+  get started(): { timestamp: string; backupId?: string; options: Record<string, unknown> } {
+    const begin = this.entries.find(entry => entry.op === 'begin') as Extract<JournalEntry, { op: 'begin' }>;
+    return { timestamp: begin?.timestamp, backupId: begin?.backupId, options: begin?.options || {} };
+  }
+
+  /**
+   * Paths written so far, with their content hashes before the run and now.
+   */
+  async writtenFiles(): Promise<{ file: string; before: string | null; after: string | null }[]> {
+    const files: { file: string; before: string | null; after: string | null }[] = [];
+    for (const [file, before] of this.originals()) {
+      files.push({ file, before, after: await hashFile(path.join(this.cwd, file)) });
+    }
+    return files;
+  }
+
+  /**
+   * Writes (or with null removes) a file, or stages the write when staging is on.
+   */
+  async write(file: string, content: string | null, options: { stage?: boolean } = {}): Promise<void> {
+    if (options.stage) {
+      // Staged output lives on disk too, so a huge migration does not have to fit in memory twice
+      if (content !== null) {
+        await fs.outputFile(this.stagedPath(file), content);
+      }
+      this.staged.push({ file, remove: content === null });
+      return;
+    }
+
+    await this.track([file], content === null ? null : hashContent(Buffer.from(content)));
+    const filePath = path.join(this.cwd, file);
+    if (content === null) {
+      await fs.remove(filePath);
+    } else {
+      await fs.outputFile(filePath, content);
+    }
+    await this.complete([file]);
+  }
+
+  /**
+   * Moves every staged write into place. If one fails, everything this journal wrote is
+   * undone before the error is rethrown.
+   */
+  async commit(): Promise<void> {
+    try {
+      for (const { file, remove } of this.staged) {
+        const filePath = path.join(this.cwd, file);
+        if (remove) {
+          await this.track([file], null);
+          await fs.remove(filePath);
+        } else {
+          await this.track([file], await hashFile(this.stagedPath(file)));
+          await fs.move(this.stagedPath(file), filePath, { overwrite: true });
+        }
+        await this.complete([file]);
+      }
+    } catch (error) {
+      const undo = await this.abort();
+      const kept = undo.failed.length > 0 ? ` (could not undo: ${undo.failed.map(failure => failure.file).join(', ')})` : '';
+      throw new Error(`Could not commit the migration, so every write was undone${kept}: ${error.message}`);
+    } finally {
+      this.staged = [];
+      await fs.remove(path.join(this.dir, 'staging'));
+    }
+  }
+
+  /**
+   * Drops staged writes without touching the project.
+   */
+  async discard(): Promise<void> {
+    this.staged = [];
+    await fs.remove(path.join(this.dir, 'staging'));
+  }
+
+  /**
+   * Records that a step outside the journal (e.g. a package install) is about to write these
+   * paths, keeping their current content so they can be put back.
+   */
+  async track(files: string[], after?: string | null): Promise<void> {
+    for (const file of files) {
+      const filePath = path.join(this.cwd, file);
+      const before = await hashFile(filePath);
+      if (before !== null) {
+        const objectPath = this.objectPath(before);
+        if (!await fs.pathExists(objectPath)) {
+          await fs.copy(filePath, objectPath);
+        }
+      }
+      await this.append({ op: 'write', file, before, after });
+    }
+  }
+
+  async complete(files: string[]): Promise<void> {
+    for (const file of files) {
+      await this.append({ op: 'done', file, after: await hashFile(path.join(this.cwd, file)) });
+    }
+  }
+
+  /**
+   * Puts back the original content of writes that were cut short (the file matches neither
+   * the content before nor the content intended), so the run can be repeated over clean files.
+   */
+  async repair(): Promise<RestoreResult> {
+    const result: RestoreResult = { restored: [], removed: [], failed: [] };
+    const open = new Map<string, Extract<JournalEntry, { op: 'write' }>>();
+
+    this.entries.forEach(entry => {
+      if (entry.op === 'write') {
+        open.set(entry.file, entry);
+      } else if (entry.op === 'done') {
+        open.delete(entry.file);
+      }
+    });
+
+    for (const entry of open.values()) {
+      const current = await hashFile(path.join(this.cwd, entry.file));
+      if (current === entry.before || (entry.after !== undefined && current === entry.after)) {
+        await this.append({ op: 'done', file: entry.file, after: current });
+        continue;
+      }
+      await this.restore(entry.file, entry.before, result);
+      await this.append({ op: 'done', file: entry.file, after: entry.before });
+    }
+
+    return result;
+  }
+
+  /**
+   * Undoes the run: every path the journal wrote gets its original content back. The journal
+   * is removed once everything was restored.
+   */
+  async abort(): Promise<RestoreResult> {
+    const result: RestoreResult = { restored: [], removed: [], failed: [] };
+
+    for (const [file, before] of Array.from(this.originals()).reverse()) {
+      await this.restore(file, before, result);
+    }
+
+    if (result.failed.length === 0) {
+      await this.finish();
+    }
+    return result;
+  }
+
+  /**
+   * Removes the journal and the original content it kept, once the run is complete.
+   */
+  async finish(): Promise<void> {
+    await fs.remove(path.join(this.dir, JOURNAL_FILE));
+    await fs.remove(path.join(this.dir, 'journal'));
+    await fs.remove(path.join(this.dir, 'staging'));
+    this.entries = [];
+  }
+
+  /**
+   * The content hash of every written path before its first write in this run.
+   */
+  private originals(): Map<string, string | null> {
+    const originals = new Map<string, string | null>();
+    this.entries.forEach(entry => {
+      if (entry.op === 'write' && !originals.has(entry.file)) {
+        originals.set(entry.file, entry.before);
+      }
+    });
+    return originals;
+  }
+
+  private async restore(file: string, before: string | null, result: RestoreResult): Promise<void> {
+    const filePath = path.join(this.cwd, file);
+
+    if (before === null) {
+      await fs.remove(filePath);
+      result.removed.push(file);
+      return;
+    }
+
+    const objectPath = this.objectPath(before);
+    if (!await fs.pathExists(objectPath)) {
+      result.failed.push({ file, reason: 'original content is missing from the journal' });
+      return;
+    }
+
+    await fs.copy(objectPath, filePath, { overwrite: true });
+    if (await hashFile(filePath) === before) {
+      result.restored.push(file);
+    } else {
+      result.failed.push({ file, reason: 'checksum mismatch after writing' });
+    }
+  }
+
+  private async append(entry: JournalEntry): Promise<void> {
+    this.entries.push(entry);
+    // One line per entry, so a crash can only lose the line being written
+    await fs.appendFile(path.join(this.dir, JOURNAL_FILE), `${JSON.stringify(entry)}\n`);
+  }
+
+  private objectPath(sha256: string): string {
+    return path.join(this.dir, 'journal', sha256);
+  }
+
+  private stagedPath(file: string): string {
+    return path.join(this.dir, 'staging', file);
+  }
+}
@@ -0,0 +1,74 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs-extra';
+import path from 'path';
+
+const execFileAsync = promisify(execFile);
+
+export type PackageManagerName = 'npm' | 'yarn' | 'pnpm' | 'bun';
+
+export interface PackageManager {
+  name: PackageManagerName;
+  // Directory the install runs in: the one holding the lockfile
+  dir: string;
+  lockfile?: string;
+}
+
+// Lockfiles in the order they are looked for
+export const LOCKFILE_MANAGERS: Record<string, PackageManagerName> = {
+  'package-lock.json': 'npm',
+  'yarn.lock': 'yarn',
+  'pnpm-lock.yaml': 'pnpm',
+  'bun.lock': 'bun',
+  'bun.lockb': 'bun'
+};
+
+/**
+ * Detects the package manager from the lockfile next to the app or at the workspace root,
+ * then from the root manifest's `packageManager` field. Defaults to npm.
+ */
+export async function detectPackageManager(cwd: string = process.cwd(), appRoot: string = ''): Promise<PackageManager> {
+  for (const dir of Array.from(new Set([path.join(cwd, appRoot), cwd]))) {
+    for (const [lockfile, name] of Object.entries(LOCKFILE_MANAGERS)) {
+      if (await fs.pathExists(path.join(dir, lockfile))) {
+        return { name, dir, lockfile };
+      }
+    }
+  }
+
+  try {
+    const { packageManager } = await fs.readJson(path.join(cwd, 'package.json'));
+    const name = typeof packageManager === 'string' ? packageManager.split('@')[0] : undefined;
+    if (name === 'npm' || name === 'yarn' || name === 'pnpm' || name === 'bun') {
+      return { name, dir: cwd };
+    }
+  } catch {
+    // No root manifest
+  }
+
+  return { name: 'npm', dir: cwd };
+}
+
+/**
+ * Returns the lockfile the package manager writes, relative to its directory.
+ */
+export function getLockfile(packageManager: PackageManager): string {
+  return packageManager.lockfile || Object.keys(LOCKFILE_MANAGERS).find(lockfile => LOCKFILE_MANAGERS[lockfile] === packageManager.name);
+}
+
+/**
+ * Runs `<manager> install` so the lockfile and node_modules match the updated manifests.
+ */
+export async function installDependencies(packageManager: PackageManager): Promise<void> {
+  try {
+    await execFileAsync(packageManager.name, ['install'], {
+      cwd: packageManager.dir,
+      maxBuffer: 64 * 1024 * 1024,
+      // npm/yarn/pnpm ship .cmd shims on Windows
+      shell: process.platform === 'win32'
+    });
+  } catch (error) {
+    const output = (error as any).stderr?.trim().split('\n').slice(-5).join('\n');
+    throw new Error(`${packageManager.name} install failed${output ? `:\n${output}` : `: ${error instanceof Error ? error.message : String(error)}`}`);
+  }
+}
@@ -174,6 +174,10 @@ export class ReportGenerator {
             background: #fed7d7;
             color: #742a2a;
         }
+        .badge-info {
+            background: #bee3f8;
+            color: #2a4365;
+        }
     </style>
 </head>
 <body>
@@ -188,6 +192,10 @@ export class ReportGenerator {
             <span class="metric-label">Files Transformed</span>
             <span class="metric-value success">${data.results.successful}</span>
         </div>
+        <div class="metric">
+            <span class="metric-label">Unchanged Files</span>
+            <span class="metric-value">${data.results.skipped?.length || 0}</span>
+        </div>
         <div class="metric">
             <span class="metric-label">Failed Transformations</span>
             <span class="metric-value ${data.results.failed > 0 ? 'error' : 'success'}">${data.results.failed}</span>
@@ -214,6 +222,34 @@ export class ReportGenerator {
         </div>
     </div>
 
+    ${data.analysis.filesToTransform.some((file: any) => file.findings?.length > 0) ? `
+    <div class="card">
+        <h2>🔎 Findings</h2>
+        <div class="file-list">
+            ${data.analysis.filesToTransform.flatMap((file: any) => file.findings || []).map((finding: any) => `
+                <div class="file-item">
+                    <span class="file-path">${finding.file}:${finding.line}:${finding.column}</span>
+                    <span class="badge badge-${finding.severity}">${finding.ruleId}${finding.fixable ? '' : ' (manual)'}: ${finding.message}</span>
+                </div>
+            `).join('')}
+        </div>
+    </div>
+    ` : ''}
+
+    ${data.analysis.dependencyIssues?.length > 0 ? `
+    <div class="card">
+        <h2>📦 Dependency Compatibility</h2>
+        <div class="file-list">
+            ${data.analysis.dependencyIssues.map(issue => `
+                <div class="file-item">
+                    <span class="file-path">${issue.name}@${issue.installed}</span>
+                    <span class="badge badge-${issue.kind === 'replaceable' ? 'info' : 'warning'}">${issue.message}</span>
+                </div>
+            `).join('')}
+        </div>
+    </div>
+    ` : ''}
+
     ${data.performanceComparison ? `
     <div class="card">
         <h2>⚡ Performance Improvements</h2>
@@ -246,13 +282,27 @@ export class ReportGenerator {
         </div>
     </div>
 
+    ${data.results.manualActions?.length > 0 ? `
+    <div class="card">
+        <h2>✋ Manual Follow-up</h2>
+        <div class="file-list">
+            ${data.results.manualActions.map(action => `
+                <div class="file-item">
+                    <span class="file-path">${action.file}</span>
+                    <span class="badge badge-warning">${action.message}</span>
+                </div>
+            `).join('')}
+        </div>
+    </div>
+    ` : ''}
+
     ${data.results.errors.length > 0 ? `
     <div class="card">
         <h2>⚠️ Issues Encountered</h2>
         <div class="file-list">
             ${data.results.errors.map(error => `
                 <div class="file-item">
-                    <span class="file-path">${error.file}</span>
+                    <span class="file-path">${error.file}${error.line ? `:${error.line}` : ''}</span>
                     <span class="badge badge-error">${error.message}</span>
                 </div>
             `).join('')}